@@ -0,0 +1,42 @@
+import { RequestInit } from "node-fetch";
+import { BackblazeLibraryError } from "./errors";
+
+/** An `AbortController`'s signal, which cancels an operation when aborted. */
+export type AbortSignal = NonNullable<RequestInit["signal"]>;
+
+/**
+ * Replaces the errors `node-fetch` rejects with when a request is aborted
+ * with a {@linkcode BackblazeLibraryError.Aborted}.
+ *
+ * @internal
+ */
+export function toAbortedError<E>(
+  err: E
+): E | BackblazeLibraryError.Aborted {
+  return err instanceof Error && err.name === "AbortError"
+    ? new BackblazeLibraryError.Aborted("The operation was aborted.")
+    : err;
+}
+
+/** @internal */
+export function throwIfAborted(signal: AbortSignal | null | undefined) {
+  if (signal && signal.aborted)
+    throw new BackblazeLibraryError.Aborted("The operation was aborted.");
+}
+
+interface Controller {
+  readonly signal: AbortSignal;
+  abort(): void;
+}
+
+/**
+ * A new `AbortController`, or `undefined` on versions of Node without one.
+ *
+ * @internal
+ */
+export function createAbortController(): Controller | undefined {
+  const { AbortController } = globalThis as {
+    AbortController?: new () => Controller;
+  };
+  return AbortController && new AbortController();
+}
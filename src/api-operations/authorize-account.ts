@@ -1,6 +1,6 @@
-import BackblazeError from "../errors";
+import BackblazeError, { networkError, requestContext, responseError } from "../errors";
 import B2 from "../b2";
-import fetch from "node-fetch";
+import { Fetch, realmUrl } from "../transport";
 
 export interface AuthorizeAccountSuccessResponse {
   /** The identifier for the account. */
@@ -31,12 +31,26 @@ export interface AuthorizeAccountSuccessResponse {
 }
 
 export type B2KeyCapability =
+  | "listKeys"
+  | "writeKeys"
+  | "deleteKeys"
+  | "listAllBucketNames"
   | "listBuckets"
+  | "readBuckets"
+  | "writeBuckets"
+  | "deleteBuckets"
   | "listFiles"
   | "readFiles"
   | "shareFiles"
   | "writeFiles"
-  | "deleteFiles";
+  | "deleteFiles"
+  | "readBucketRetentions"
+  | "writeBucketRetentions"
+  | "readFileRetentions"
+  | "writeFileRetentions"
+  | "readFileLegalHolds"
+  | "writeFileLegalHolds"
+  | "bypassGovernance";
 
 export interface KeyAllowedField {
   capabilities: B2KeyCapability[];
@@ -65,29 +79,39 @@ export interface B2Credentials {
 }
 
 /** @internal */
-export async function authorize({applicationKeyId, applicationKey}: B2Credentials) {
+export async function authorize(
+  {applicationKeyId, applicationKey}: B2Credentials,
+  fetch: Fetch,
+  realm?: string,
+  attempt: number = 1
+) {
   const combinedCredentials = Buffer.from(
     applicationKeyId + ":" + applicationKey
   , "utf-8").toString("base64");
 
-  const res = await fetch(`https://api.backblazeb2.com/b2api/${B2.apiVersion}/b2_authorize_account`, {
-    headers: {
-      "Authorization": `Basic ${combinedCredentials}`,
-      "User-Agent": B2.userAgent,
-    }
-  });
+  const url = `${realmUrl(realm)}/b2api/${B2.apiVersion}/b2_authorize_account`;
+  let res;
+  try {
+    res = await fetch(url, {
+      headers: {
+        "Authorization": `Basic ${combinedCredentials}`,
+        "User-Agent": B2.userAgent,
+      }
+    });
+  } catch (err) {
+    throw networkError(err, requestContext("b2_authorize_account", url, attempt));
+  }
 
   if(res.status === 200) {
     const data = await res.json() as AuthorizeAccountSuccessResponse;
     return data;
   } else {
-    const data = await res.json();
-    switch (data.code) {
-    case "bad_request": throw new BackblazeError.BadRequest(data);
-    case "unauthorized": throw new BadCredentials(data);
-    case "unsupported": throw new UnsupportedApplicationKeyId(data);
-    case "transaction_cap_exceeded": throw new BackblazeError.UsageCapExceeded(data);
-    default: throw new BackblazeError.UnknownServerError(data)
+    const error = await responseError(res, requestContext("b2_authorize_account", url, attempt, res));
+    const { apiData, context } = error;
+    switch (apiData.code) {
+    case "unauthorized": throw new BadCredentials(apiData, { context });
+    case "unsupported": throw new UnsupportedApplicationKeyId(apiData, { context });
+    default: throw error;
     }
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,11 @@
+export interface CancelLargeFileRequest {
+  /** The large file to cancel, and whose parts to delete. */
+  fileId: string;
+}
+
+export interface CancelLargeFileResponse {
+  fileId: string;
+  accountId: string;
+  bucketId: string;
+  fileName: string;
+}
@@ -0,0 +1,36 @@
+import { FileData, FileInfo } from "../file";
+import { ServerSideEncryption } from "../encryption";
+import { FileRetentionParameter } from "../object-lock";
+import { MetadataDirective } from "../file-copy";
+
+export interface CopyFileRequest {
+  sourceFileId: string;
+
+  /** Defaults to the bucket of the source file. */
+  destinationBucketId?: string;
+
+  fileName: string;
+
+  /** A byte range of the source to copy, such as `"bytes=0-999"`. Defaults to the whole file. */
+  range?: string;
+
+  /** Whether to keep the content type and info of the source. Defaults to `"COPY"`. */
+  metadataDirective?: MetadataDirective | "COPY" | "REPLACE";
+
+  /** Only with a `"REPLACE"` directive. */
+  contentType?: string;
+
+  /** Only with a `"REPLACE"` directive. */
+  fileInfo?: FileInfo | Record<string, any>;
+
+  fileRetention?: FileRetentionParameter;
+
+  legalHold?: "on" | "off";
+
+  /** Needed when the source is encrypted with SSE-C. */
+  sourceServerSideEncryption?: ServerSideEncryption;
+
+  destinationServerSideEncryption?: ServerSideEncryption;
+}
+
+export type CopyFileResponse = FileData;
@@ -0,0 +1,23 @@
+import { PartData } from "../file";
+import { ServerSideEncryption } from "../encryption";
+
+export interface CopyPartRequest {
+  sourceFileId: string;
+
+  /** The unfinished large file the part is copied into. */
+  largeFileId: string;
+
+  /** From 1 to 10000. */
+  partNumber: number;
+
+  /** A byte range of the source to copy, such as `"bytes=0-999"`. Defaults to the whole file. */
+  range?: string;
+
+  /** Needed when the source is encrypted with SSE-C. */
+  sourceServerSideEncryption?: ServerSideEncryption;
+
+  /** Needed when the large file is encrypted with SSE-C. */
+  destinationServerSideEncryption?: ServerSideEncryption;
+}
+
+export type CopyPartResponse = PartData;
@@ -0,0 +1,24 @@
+import { BucketInfo, BucketType } from "../bucket";
+import { BucketInfoData, CorsRule, LifecycleRule } from "../bucket-rules";
+import { ServerSideEncryption } from "../encryption";
+
+export interface CreateBucketRequest {
+  accountId: string;
+
+  bucketName: string;
+
+  bucketType: BucketType | Exclude<string, BucketType>;
+
+  bucketInfo?: BucketInfoData;
+
+  corsRules?: CorsRule[];
+
+  lifecycleRules?: LifecycleRule[];
+
+  /** Object Lock can only be enabled when a bucket is created. */
+  fileLockEnabled?: boolean;
+
+  defaultServerSideEncryption?: ServerSideEncryption;
+}
+
+export type CreateBucketResponse = BucketInfo;
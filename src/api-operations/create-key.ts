@@ -0,0 +1,21 @@
+import { B2KeyCapability } from "./authorize-account";
+import { CreatedApplicationKeyData } from "../application-key";
+
+export interface CreateKeyRequest {
+  accountId: string;
+
+  capabilities: B2KeyCapability[];
+
+  keyName: string;
+
+  /** Up to 1000 days. Defaults to a key which never expires. */
+  validDurationInSeconds?: number;
+
+  /** Restricts the key to one bucket. */
+  bucketId?: string;
+
+  /** Restricts the key to files whose names start with the prefix. Requires `bucketId`. */
+  namePrefix?: string;
+}
+
+export type CreateKeyResponse = CreatedApplicationKeyData;
@@ -0,0 +1,9 @@
+import { BucketInfo } from "../bucket";
+
+export interface DeleteBucketRequest {
+  accountId: string;
+  bucketId: string;
+}
+
+/** The bucket which was deleted. */
+export type DeleteBucketResponse = BucketInfo;
@@ -0,0 +1,12 @@
+import { DeletedFileData } from "../file";
+
+export interface DeleteFileVersionRequest {
+  fileName: string;
+
+  fileId: string;
+
+  /** Deletes a version under governance retention. Requires the `bypassGovernance` capability. */
+  bypassGovernance?: boolean;
+}
+
+export type DeleteFileVersionResponse = DeletedFileData;
@@ -0,0 +1,8 @@
+import { ApplicationKeyData } from "../application-key";
+
+export interface DeleteKeyRequest {
+  applicationKeyId: string;
+}
+
+/** The key which was deleted. */
+export type DeleteKeyResponse = ApplicationKeyData;
@@ -0,0 +1,10 @@
+import { FileData } from "../file";
+
+export interface FinishLargeFileRequest {
+  fileId: string;
+
+  /** The hex SHA1 of each part, in order, starting with part 1. */
+  partSha1Array: string[];
+}
+
+export type FinishLargeFileResponse = FileData;
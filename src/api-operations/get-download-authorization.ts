@@ -0,0 +1,34 @@
+export interface GetDownloadAuthorizationRequest {
+  bucketId: string;
+
+  /** Downloads are authorized for files whose names start with the prefix. */
+  fileNamePrefix: string;
+
+  /** From 1 second to 1 week. */
+  validDurationInSeconds: number;
+
+  /** Overrides the `Content-Disposition` of downloads. */
+  b2ContentDisposition?: string;
+
+  /** Overrides the `Content-Language` of downloads. */
+  b2ContentLanguage?: string;
+
+  /** Overrides the `Expires` of downloads. */
+  b2Expires?: string;
+
+  /** Overrides the `Cache-Control` of downloads. */
+  b2CacheControl?: string;
+
+  /** Overrides the `Content-Encoding` of downloads. */
+  b2ContentEncoding?: string;
+
+  /** Overrides the `Content-Type` of downloads. */
+  b2ContentType?: string;
+}
+
+export interface GetDownloadAuthorizationResponse {
+  bucketId: string;
+  fileNamePrefix: string;
+  /** Passed as the `Authorization` header or query parameter of downloads by name. */
+  authorizationToken: string;
+}
@@ -0,0 +1,7 @@
+import { FileData } from "../file";
+
+export interface GetFileInfoRequest {
+  fileId: string;
+}
+
+export type GetFileInfoResponse = FileData;
@@ -0,0 +1,8 @@
+import { MultipartUploadUrl } from "./upload-part";
+
+export interface GetUploadPartUrlRequest {
+  /** The unfinished large file the parts are uploaded to. */
+  fileId: string;
+}
+
+export type GetUploadPartUrlResponse = MultipartUploadUrl;
@@ -0,0 +1,13 @@
+export interface GetUploadUrlRequest {
+  bucketId: string;
+}
+
+export interface GetUploadUrlResponse {
+  bucketId: string;
+
+  /** Where `b2_upload_file` is sent to. Each URL may only be used for one upload at a time. */
+  uploadUrl: string;
+
+  /** Authorizes uploads to `uploadUrl`, for up to 24 hours. */
+  authorizationToken: string;
+}
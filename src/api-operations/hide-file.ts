@@ -0,0 +1,9 @@
+import { FileData } from "../file";
+
+export interface HideFileRequest {
+  bucketId: string;
+  fileName: string;
+}
+
+/** The hide marker, which is a new version of the file. */
+export type HideFileResponse = FileData;
@@ -0,0 +1,149 @@
+import {
+  CancelLargeFileRequest,
+  CancelLargeFileResponse,
+} from "./cancel-large-file";
+import { CopyFileRequest, CopyFileResponse } from "./copy-file";
+import { CopyPartRequest, CopyPartResponse } from "./copy-part";
+import { CreateBucketRequest, CreateBucketResponse } from "./create-bucket";
+import { CreateKeyRequest, CreateKeyResponse } from "./create-key";
+import { DeleteBucketRequest, DeleteBucketResponse } from "./delete-bucket";
+import {
+  DeleteFileVersionRequest,
+  DeleteFileVersionResponse,
+} from "./delete-file-version";
+import { DeleteKeyRequest, DeleteKeyResponse } from "./delete-key";
+import {
+  FinishLargeFileRequest,
+  FinishLargeFileResponse,
+} from "./finish-large-file";
+import {
+  GetDownloadAuthorizationRequest,
+  GetDownloadAuthorizationResponse,
+} from "./get-download-authorization";
+import { GetFileInfoRequest, GetFileInfoResponse } from "./get-file-info";
+import {
+  GetUploadPartUrlRequest,
+  GetUploadPartUrlResponse,
+} from "./get-upload-part-url";
+import { GetUploadUrlRequest, GetUploadUrlResponse } from "./get-upload-url";
+import { HideFileRequest, HideFileResponse } from "./hide-file";
+import { ListBucketsRequest, ListBucketsResponse } from "./list-buckets";
+import { ListFileNamesRequest, ListFileNamesResponse } from "./list-file-names";
+import {
+  ListFileVersionsRequest,
+  ListFileVersionsResponse,
+} from "./list-file-versions";
+import { ListKeysRequest, ListKeysResponse } from "./list-keys";
+import { ListPartsRequest, ListPartsResponse } from "./list-parts";
+import {
+  ListUnfinishedLargeFilesRequest,
+  ListUnfinishedLargeFilesResponse,
+} from "./list-unfinished-large-files";
+import {
+  StartLargeFileRequest,
+  StartLargeFileResponse,
+} from "./start-large-file";
+import { UpdateBucketRequest, UpdateBucketResponse } from "./update-bucket";
+import {
+  UpdateFileLegalHoldRequest,
+  UpdateFileLegalHoldResponse,
+} from "./update-file-legal-hold";
+import {
+  UpdateFileRetentionRequest,
+  UpdateFileRetentionResponse,
+} from "./update-file-retention";
+
+/**
+ * The request and response of each operation of the native API which is
+ * called with JSON, by name. See {@linkcode B2.call}.
+ *
+ * `b2_authorize_account`, uploads and downloads have their own URLs and
+ * bodies, and are made by the client itself.
+ */
+export interface ApiOperations {
+  b2_cancel_large_file: {
+    request: CancelLargeFileRequest;
+    response: CancelLargeFileResponse;
+  };
+  b2_copy_file: { request: CopyFileRequest; response: CopyFileResponse };
+  b2_copy_part: { request: CopyPartRequest; response: CopyPartResponse };
+  b2_create_bucket: {
+    request: CreateBucketRequest;
+    response: CreateBucketResponse;
+  };
+  b2_create_key: { request: CreateKeyRequest; response: CreateKeyResponse };
+  b2_delete_bucket: {
+    request: DeleteBucketRequest;
+    response: DeleteBucketResponse;
+  };
+  b2_delete_file_version: {
+    request: DeleteFileVersionRequest;
+    response: DeleteFileVersionResponse;
+  };
+  b2_delete_key: { request: DeleteKeyRequest; response: DeleteKeyResponse };
+  b2_finish_large_file: {
+    request: FinishLargeFileRequest;
+    response: FinishLargeFileResponse;
+  };
+  b2_get_download_authorization: {
+    request: GetDownloadAuthorizationRequest;
+    response: GetDownloadAuthorizationResponse;
+  };
+  b2_get_file_info: {
+    request: GetFileInfoRequest;
+    response: GetFileInfoResponse;
+  };
+  b2_get_upload_part_url: {
+    request: GetUploadPartUrlRequest;
+    response: GetUploadPartUrlResponse;
+  };
+  b2_get_upload_url: {
+    request: GetUploadUrlRequest;
+    response: GetUploadUrlResponse;
+  };
+  b2_hide_file: { request: HideFileRequest; response: HideFileResponse };
+  b2_list_buckets: {
+    request: ListBucketsRequest;
+    response: ListBucketsResponse;
+  };
+  b2_list_file_names: {
+    request: ListFileNamesRequest;
+    response: ListFileNamesResponse;
+  };
+  b2_list_file_versions: {
+    request: ListFileVersionsRequest;
+    response: ListFileVersionsResponse;
+  };
+  b2_list_keys: { request: ListKeysRequest; response: ListKeysResponse };
+  b2_list_parts: { request: ListPartsRequest; response: ListPartsResponse };
+  b2_list_unfinished_large_files: {
+    request: ListUnfinishedLargeFilesRequest;
+    response: ListUnfinishedLargeFilesResponse;
+  };
+  b2_start_large_file: {
+    request: StartLargeFileRequest;
+    response: StartLargeFileResponse;
+  };
+  b2_update_bucket: {
+    request: UpdateBucketRequest;
+    response: UpdateBucketResponse;
+  };
+  b2_update_file_legal_hold: {
+    request: UpdateFileLegalHoldRequest;
+    response: UpdateFileLegalHoldResponse;
+  };
+  b2_update_file_retention: {
+    request: UpdateFileRetentionRequest;
+    response: UpdateFileRetentionResponse;
+  };
+}
+
+export type OperationName = keyof ApiOperations;
+
+export type OperationRequest<
+  Op extends OperationName
+> = ApiOperations[Op]["request"];
+
+export type OperationResponse<
+  Op extends OperationName
+> = ApiOperations[Op]["response"];
@@ -0,0 +1,18 @@
+import { BucketInfo, BucketType } from "../bucket";
+
+export interface ListBucketsRequest {
+  accountId: string;
+
+  /** Lists only the bucket with the id. */
+  bucketId?: string;
+
+  /** Lists only the bucket with the name. */
+  bucketName?: string;
+
+  /** Lists only buckets of the types, or `["all"]`. Defaults to every type. */
+  bucketTypes?: (BucketType | Exclude<string, BucketType>)[];
+}
+
+export interface ListBucketsResponse {
+  buckets: BucketInfo[];
+}
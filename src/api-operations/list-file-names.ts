@@ -0,0 +1,21 @@
+import { FileData } from "../file";
+
+export interface ListFileNamesRequest {
+  bucketId: string;
+
+  startFileName?: string;
+
+  /** Up to 10000. Defaults to 100. */
+  maxFileCount?: number;
+
+  prefix?: string;
+
+  delimiter?: string;
+}
+
+export interface ListFileNamesResponse {
+  files: FileData[];
+
+  /** Where the next page starts, or `null` at the end. */
+  nextFileName: string | null;
+}
@@ -0,0 +1,26 @@
+import { FileData } from "../file";
+
+export interface ListFileVersionsRequest {
+  bucketId: string;
+
+  startFileName?: string;
+
+  /** Requires `startFileName`. */
+  startFileId?: string;
+
+  /** Up to 10000. Defaults to 100. */
+  maxFileCount?: number;
+
+  prefix?: string;
+
+  delimiter?: string;
+}
+
+export interface ListFileVersionsResponse {
+  files: FileData[];
+
+  /** Where the next page starts, or `null` at the end. */
+  nextFileName: string | null;
+
+  nextFileId: string | null;
+}
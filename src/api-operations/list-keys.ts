@@ -0,0 +1,17 @@
+import { ApplicationKeyData } from "../application-key";
+
+export interface ListKeysRequest {
+  accountId: string;
+
+  /** Up to 10000. Defaults to 100. */
+  maxKeyCount?: number;
+
+  startApplicationKeyId?: string;
+}
+
+export interface ListKeysResponse {
+  keys: ApplicationKeyData[];
+
+  /** Where the next page starts, or `null` at the end. */
+  nextApplicationKeyId: string | null;
+}
@@ -0,0 +1,17 @@
+import { PartData } from "../file";
+
+export interface ListPartsRequest {
+  fileId: string;
+
+  startPartNumber?: number;
+
+  /** Up to 1000. Defaults to 100. */
+  maxPartCount?: number;
+}
+
+export interface ListPartsResponse {
+  parts: PartData[];
+
+  /** Where the next page starts, or `null` at the end. */
+  nextPartNumber: number | null;
+}
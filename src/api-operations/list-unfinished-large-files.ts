@@ -0,0 +1,19 @@
+import { FileData } from "../file";
+
+export interface ListUnfinishedLargeFilesRequest {
+  bucketId: string;
+
+  namePrefix?: string;
+
+  startFileId?: string;
+
+  /** Up to 100. Defaults to 100. */
+  maxFileCount?: number;
+}
+
+export interface ListUnfinishedLargeFilesResponse {
+  files: FileData[];
+
+  /** Where the next page starts, or `null` at the end. */
+  nextFileId: string | null;
+}
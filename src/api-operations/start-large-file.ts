@@ -0,0 +1,22 @@
+import { FileData, FileInfo } from "../file";
+import { ServerSideEncryption } from "../encryption";
+import { FileRetentionParameter } from "../object-lock";
+
+export interface StartLargeFileRequest {
+  bucketId: string;
+
+  fileName: string;
+
+  /** Use `"b2/x-auto"` for B2 to choose it from the file's extension. */
+  contentType: string;
+
+  fileInfo?: FileInfo | Record<string, any>;
+
+  fileRetention?: FileRetentionParameter;
+
+  legalHold?: "on" | "off";
+
+  serverSideEncryption?: ServerSideEncryption;
+}
+
+export type StartLargeFileResponse = FileData;
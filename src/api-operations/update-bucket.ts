@@ -0,0 +1,28 @@
+import { BucketInfo, BucketType } from "../bucket";
+import { BucketInfoData, CorsRule, LifecycleRule } from "../bucket-rules";
+import { ServerSideEncryption } from "../encryption";
+import { BucketRetention } from "../object-lock";
+
+export interface UpdateBucketRequest {
+  accountId: string;
+
+  bucketId: string;
+
+  bucketType?: BucketType | Exclude<string, BucketType>;
+
+  bucketInfo?: BucketInfoData;
+
+  corsRules?: CorsRule[];
+
+  lifecycleRules?: LifecycleRule[];
+
+  /** Requires Object Lock to be enabled on the bucket. */
+  defaultRetention?: BucketRetention;
+
+  defaultServerSideEncryption?: ServerSideEncryption;
+
+  /** Only updates the bucket if its revision matches, or else fails with a conflict. */
+  ifRevisionIs?: number;
+}
+
+export type UpdateBucketResponse = BucketInfo;
@@ -0,0 +1,11 @@
+export interface UpdateFileLegalHoldRequest {
+  fileName: string;
+  fileId: string;
+  legalHold: "on" | "off";
+}
+
+export interface UpdateFileLegalHoldResponse {
+  fileName: string;
+  fileId: string;
+  legalHold: "on" | "off";
+}
@@ -0,0 +1,26 @@
+import { FileRetentionParameter, RetentionMode } from "../object-lock";
+
+export interface UpdateFileRetentionRequest {
+  fileName: string;
+
+  fileId: string;
+
+  /** Governance retention is removed with a `null` mode and timestamp. */
+  fileRetention:
+    | FileRetentionParameter
+    | { mode: null; retainUntilTimestamp: null };
+
+  /** Shortens or removes governance retention. Requires the `bypassGovernance` capability. */
+  bypassGovernance?: boolean;
+}
+
+export interface UpdateFileRetentionResponse {
+  fileName: string;
+
+  fileId: string;
+
+  fileRetention: {
+    mode: RetentionMode | null;
+    retainUntilTimestamp: number | null;
+  };
+}
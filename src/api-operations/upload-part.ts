@@ -1,6 +1,9 @@
-import BackblazeServerError from "../errors";
-import fetch from "node-fetch";
+import { networkError, requestContext, responseError } from "../errors";
+import { Response } from "node-fetch";
 import B2 from '../b2';
+import { AbortSignal } from "../abort";
+import { Fetch } from "../transport";
+import RetryPolicy from "../retry-policy";
 
 /** @internal */
 export interface PartUploadResultData {
@@ -25,54 +28,95 @@ export interface PartUploadResult {
   url: MultipartUploadUrl
 }
 
-/** @internal */
+/**
+ * Bytes which are read again for each attempt to upload them, such as from a
+ * file, so that they need not be held in memory.
+ */
+export interface ReopenableBody {
+  byteLength: number;
+  read: () => NodeJS.ReadableStream;
+}
+
+/**
+ * Whether the body is read again for each attempt, rather than being a Buffer
+ * or a stream, which also have a `read` method.
+ *
+ * @internal
+ */
+export function isReopenableBody(
+  body: Buffer | NodeJS.ReadableStream | ReopenableBody
+): body is ReopenableBody {
+  return (
+    !Buffer.isBuffer(body) &&
+    typeof (body as NodeJS.ReadableStream).pipe !== "function"
+  );
+}
+
+/**
+ * The bytes of a part, or a way to read them again for each attempt to
+ * upload it.
+ *
+ * @internal
+ */
+export type PartBody = ArrayBuffer | ReopenableBody;
+
+/**
+ * Uploads a part, getting a new upload url to retry with when B2 asks, or
+ * the connection fails.
+ *
+ * @internal
+ */
 export default async function uploadPart(
+  fetch: Fetch,
   partNumber: number,
-  buffer: ArrayBuffer,
+  buffer: PartBody,
   sha1: string,
-  _uploadUrl: MultipartUploadUrl | undefined,
+  uploadUrl: MultipartUploadUrl | undefined,
   getUploadUrl: () => Promise<MultipartUploadUrl>,
-  maxRetries: number = 5,
-  backoffRate: number = 150,
-  retryN: number = 0
+  policy: RetryPolicy,
+  signal?: AbortSignal,
+  headers: Record<string, string> = {}
 ): Promise<PartUploadResult> {
-  if (typeof _uploadUrl === "undefined") _uploadUrl = await getUploadUrl();
-  const { uploadUrl, authorizationToken } = _uploadUrl;
+  let url = uploadUrl;
 
-  const res = await fetch(uploadUrl, {
-    method: "POST",
-    headers: {
-      Authorization: authorizationToken,
-      "X-Bz-Content-Sha1": sha1,
-      "X-Bz-Part-Number": partNumber.toString(),
-      "Content-Length": buffer.byteLength.toString(),
-      "User-Agent": B2.userAgent,
-    },
-    body: buffer,
-  });
+  return policy.run(
+    "b2_upload_part",
+    async (attempt) => {
+      if (typeof url === "undefined") url = await getUploadUrl();
+      const { uploadUrl, authorizationToken } = url;
+
+      let res: Response;
+      try {
+        res = await fetch(uploadUrl, {
+          method: "POST",
+          headers: {
+            Authorization: authorizationToken,
+            "X-Bz-Content-Sha1": sha1,
+            "X-Bz-Part-Number": partNumber.toString(),
+            "Content-Length": buffer.byteLength.toString(),
+            "User-Agent": B2.userAgent,
+            ...headers,
+          },
+          body: "read" in buffer ? buffer.read() : buffer,
+          signal,
+        });
+      } catch (err) {
+        url = undefined;
+        throw networkError(
+          err,
+          requestContext("b2_upload_part", uploadUrl, attempt)
+        );
+      }
 
-  const data = await res.json();
+      if (res.status === 200) return { data: await res.json(), url };
 
-  switch (res.status) {
-    case 200:
-      return {data, url: _uploadUrl};
-    case 401: /** auth expired - get a new upload url */
-      if(retryN > maxRetries)
-        throw new BackblazeServerError.UnauthorizedRequest(data);
-    case 503: /** service unavailable - get a new upload url */
-      if(retryN > maxRetries)
-        throw new BackblazeServerError.ServiceUnavailable(data);
-      return uploadPart(partNumber, buffer, sha1, await getUploadUrl(), getUploadUrl, maxRetries, backoffRate, retryN + 1);
-    case 408: /** timeout, exponential back-off */
-      if(retryN > maxRetries)
-        throw new BackblazeServerError.RequestTimeout(data);
-      
-      return new Promise((res) => {
-        setTimeout(async () => {
-          res(uploadPart(partNumber, buffer, sha1, _uploadUrl, getUploadUrl, maxRetries, backoffRate, retryN + 1));
-        }, backoffRate * Math.pow(2, retryN));
-      });
-    default:
-      throw new BackblazeServerError.UnknownServerError(data);
-  }
-}
\ No newline at end of file
+      /** expired auth or service unavailable - get a new upload url */
+      if (res.status === 401 || res.status === 503) url = undefined;
+      throw await responseError(
+        res,
+        requestContext("b2_upload_part", uploadUrl, attempt, res)
+      );
+    },
+    signal
+  );
+}
@@ -20,8 +20,9 @@ export default class AppendHashStream extends Transform {
     callback(null, chunk);
   }
 
-  _flush() {
+  _flush(callback: TransformCallback) {
     this.push(this.digest(), "utf-8");
+    callback();
   }
 
   private _digest?: string;
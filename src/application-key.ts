@@ -0,0 +1,88 @@
+import { B2KeyCapability } from "./api-operations/authorize-account";
+import { AbortSignal } from "./abort";
+
+export interface ApplicationKeyData {
+  /** The name assigned when the key was created. */
+  keyName: string;
+
+  /** The ID of the key. */
+  applicationKeyId: string;
+
+  /** The capabilities this key has. */
+  capabilities: B2KeyCapability[];
+
+  /** The account that this application key is for. */
+  accountId: string;
+
+  /**
+   * When present, the UTC time, in milliseconds since midnight,
+   * January 1, 1970, when this key expires.
+   */
+  expirationTimestamp: number | null;
+
+  /** When present, access is restricted to this bucket. */
+  bucketId: string | null;
+
+  /** When present, access is restricted to files whose names start with the prefix. */
+  namePrefix: string | null;
+
+  /** A set of strings reserved for future use. */
+  options: string[];
+}
+
+export interface CreatedApplicationKeyData extends ApplicationKeyData {
+  /**
+   * The secret part of the key. This is the only time it is returned,
+   * so be sure to store it.
+   */
+  applicationKey: string;
+}
+
+export interface CreateKeyOptions {
+  /**
+   * A name for this key. There is no requirement that the name be unique.
+   *
+   * Names may be up to 100 characters of letters, numbers and "-".
+   */
+  keyName: string;
+
+  /** The capabilities that the new key should have. */
+  capabilities: B2KeyCapability[];
+
+  /**
+   * When provided, the key will expire after the given number of seconds,
+   * which must be positive and less than 1000 days (86,400,000 seconds).
+   */
+  validDurationInSeconds?: number;
+
+  /** When provided, the new key can only access this bucket. */
+  bucketId?: string;
+
+  /**
+   * When provided, the new key can only access files whose names start with
+   * this prefix. `bucketId` must also be provided.
+   */
+  namePrefix?: string;
+}
+
+export interface ListKeysOptions {
+  /**
+   * The first key to return. Used when continuing a listing.
+   */
+  startApplicationKeyId?: string;
+
+  /**
+   * The maximum number of keys to return per call to `b2_list_keys`.
+   *
+   * The default value is 100, and the maximum is 10000.
+   *
+   * NOTE: b2_list_keys is a Class C transaction (see [Pricing]), billed
+   * per 1000 keys returned.
+   *
+   * [Pricing]: https://www.backblaze.com/b2/cloud-storage-pricing.html
+   */
+  batchSize?: number;
+
+  /** Cancels the listing. */
+  signal?: AbortSignal;
+}
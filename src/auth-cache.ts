@@ -0,0 +1,114 @@
+import { promises as fs } from "fs";
+import { AuthorizeAccountSuccessResponse } from "./api-operations/authorize-account";
+
+/** How long an authorization token is valid for: 24 hours. */
+export const authorizationLifetime = 24 * 60 * 60 * 1000;
+
+/**
+ * An authorization of an account, which can be saved and used by another
+ * client with {@linkcode B2.fromSession}.
+ *
+ * It contains the authorization token, which must be kept as secret as the
+ * application key, but not the application key itself.
+ */
+export interface B2Session {
+  /** The URL the account was authorized at. */
+  realm: string;
+
+  /** The response of `b2_authorize_account`. */
+  authorization: AuthorizeAccountSuccessResponse;
+
+  /** When the account was authorized, in milliseconds since midnight, January 1, 1970 UTC. */
+  authorizedAt: number;
+
+  /** When the authorization token expires, in milliseconds since midnight, January 1, 1970 UTC. */
+  expiresAt: number;
+}
+
+/**
+ * Stores sessions, so that clients can share an authorization rather than
+ * each calling `b2_authorize_account`, such as across the cold starts of a
+ * serverless function.
+ *
+ * Sessions are stored by a key made of the realm and the application key id.
+ */
+export interface AuthCache {
+  /** The session stored for the key, if any. */
+  get(key: string): Promise<B2Session | undefined>;
+
+  /** Stores the session for the key, replacing any before it. */
+  set(key: string, session: B2Session): Promise<void>;
+}
+
+/** Shares sessions between the clients of one process. */
+export class MemoryAuthCache implements AuthCache {
+  private readonly sessions = new Map<string, B2Session>();
+
+  async get(key: string) {
+    const session = this.sessions.get(key);
+    if (typeof session !== "undefined" && session.expiresAt <= Date.now()) {
+      this.sessions.delete(key);
+      return;
+    }
+    return session;
+  }
+
+  async set(key: string, session: B2Session) {
+    this.sessions.set(key, session);
+  }
+}
+
+/**
+ * Shares sessions between processes through a JSON file, which is only
+ * readable by its owner.
+ */
+export class FileAuthCache implements AuthCache {
+  readonly path: string;
+
+  constructor(path: string) {
+    this.path = path;
+  }
+
+  private async read(): Promise<Record<string, B2Session>> {
+    let contents: string;
+    try {
+      contents = await fs.readFile(this.path, "utf-8");
+    } catch (err) {
+      if (err.code === "ENOENT") return {};
+      throw err;
+    }
+
+    // A file which can't be parsed is replaced by the next session stored.
+    try {
+      const sessions = JSON.parse(contents);
+      return typeof sessions === "object" && sessions !== null ? sessions : {};
+    } catch (err) {
+      return {};
+    }
+  }
+
+  async get(key: string) {
+    const session = (await this.read())[key];
+    if (typeof session === "undefined" || session.expiresAt <= Date.now())
+      return;
+    return session;
+  }
+
+  async set(key: string, session: B2Session) {
+    const now = Date.now();
+    const sessions: Record<string, B2Session> = {};
+    for (const [k, s] of Object.entries(await this.read()))
+      if (s.expiresAt > now) sessions[k] = s;
+    sessions[key] = session;
+
+    // Renamed into place, so that readers never see a partly written file.
+    const tmp = `${this.path}.${process.pid}.tmp`;
+    await fs.writeFile(tmp, JSON.stringify(sessions), { mode: 0o600 });
+    await fs.rename(tmp, this.path);
+  }
+}
+
+/** @internal */
+export function authCacheKey(realm: string, applicationKeyId: string) {
+  return `${realm} ${applicationKeyId}`;
+}
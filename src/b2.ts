@@ -1,23 +1,98 @@
-import fetch, { RequestInit, Response } from "node-fetch";
+import { RequestInit, Response } from "node-fetch";
 import {
   authorize,
   B2Credentials,
   AuthorizeAccountSuccessResponse,
+  B2KeyCapability,
+  KeyAllowedField,
 } from "./api-operations/authorize-account";
-import BackblazeServerError, { BackblazeErrorResponse } from "./errors";
-import Bucket, { MinimumBucketInfo } from "./bucket";
+import BackblazeServerError, {
+  BackblazeLibraryError,
+  networkError,
+  requestContext,
+  responseError,
+} from "./errors";
+import Bucket, {
+  MinimumBucketInfo,
+  BucketType,
+  CreateBucketOptions,
+} from "./bucket";
+import { validateBucketOptions } from "./bucket-rules";
+import { AbortSignal } from "./abort";
+import {
+  ApplicationKeyData,
+  CreatedApplicationKeyData,
+  CreateKeyOptions,
+  ListKeysOptions,
+} from "./application-key";
+import {
+  ClientOptions,
+  createTransport,
+  Fetch,
+  realmUrl,
+} from "./transport";
+import RetryPolicy, { RetryOptions } from "./retry-policy";
+import { CredentialProvider, toCredentialProvider } from "./credentials";
+import {
+  BucketScope,
+  capabilityDenial,
+  isAllowedBucket,
+  operationScope,
+} from "./capabilities";
+import {
+  AuthCache,
+  authCacheKey,
+  authorizationLifetime,
+  B2Session,
+} from "./auth-cache";
+import {
+  OperationName,
+  OperationRequest,
+  OperationResponse,
+} from "./api-operations";
 
 const { version } = require("../package.json") as { version: string };
 
 interface RequestOptions {
-  maxRetries?: number;
-  backoff?: number;
+  /** Overrides the client's retry policy for this request. */
+  retry?: RetryOptions;
+}
+
+export interface CallOptions extends RequestOptions {
+  signal?: AbortSignal;
 }
 
 export default class B2 {
-  private credentials: B2Credentials;
+  private credentials?: CredentialProvider;
+
+  private session!: B2Session;
+
+  private get auth(): AuthorizeAccountSuccessResponse {
+    return this.session.authorization;
+  }
+
+  private realm: string;
+
+  private authCache?: AuthCache;
 
-  private auth!: AuthorizeAccountSuccessResponse;
+  private refreshBefore: number;
+
+  /** The authorization in progress, which every request waits for. */
+  private authorizing?: Promise<void>;
+
+  /**
+   * Sends every request the client makes, with the `fetch`, agent and proxy
+   * given to {@linkcode B2.authorize}.
+   *
+   * @internal
+   */
+  readonly fetch: Fetch;
+
+  /**
+   * When and how often failed requests are retried. Operations can override
+   * it with their `retry` option.
+   */
+  retryPolicy: RetryPolicy;
 
   private _userSetPartSize?: number;
 
@@ -40,15 +115,176 @@ export default class B2 {
     this._userSetPartSize = size;
   }
 
+  /** The account the client is authorized for. */
+  get accountId(): string {
+    return this.auth.accountId;
+  }
+
+  /** What the key may do, and the bucket and file name prefix it may do it in. */
+  get allowed(): KeyAllowedField {
+    return this.auth.allowed;
+  }
+
+  /** The capabilities of the key. */
+  get capabilities(): B2KeyCapability[] {
+    return this.auth.allowed.capabilities;
+  }
+
+  /**
+   * Whether the key has the capability, and when given, may use it in the
+   * bucket and on the file name (or prefix).
+   *
+   * ```js
+   * if (b2.can("writeFiles", bucket, "uploads/photo.jpg")) { ... }
+   * ```
+   */
+  can(
+    capability: B2KeyCapability,
+    bucket?: Bucket | MinimumBucketInfo | string,
+    fileName?: string
+  ): boolean {
+    return (
+      typeof capabilityDenial(
+        this.auth.allowed,
+        capability,
+        toBucketScope(bucket),
+        fileName
+      ) === "undefined"
+    );
+  }
+
+  /**
+   * Rejects an operation the key is not allowed to make, before sending it.
+   *
+   * @internal
+   */
+  assertAllowed(
+    operation: string,
+    capability: B2KeyCapability,
+    bucket?: BucketScope,
+    fileName?: string
+  ) {
+    const denial = capabilityDenial(
+      this.auth.allowed,
+      capability,
+      bucket,
+      fileName
+    );
+    if (typeof denial !== "undefined")
+      throw new BackblazeLibraryError.NotAllowed(
+        `Not allowed to call ${operation}: ${denial}.`
+      );
+  }
+
   static readonly apiVersion: string = "v2";
   static readonly userAgent: string = `b2-js/${version}+nodejs/${process.version} https://git.io/b2-js`;
 
-  private constructor(credentials: B2Credentials) {
-    this.credentials = credentials;
+  private constructor(
+    credentials: B2Credentials | CredentialProvider | undefined,
+    options: ClientOptions
+  ) {
+    this.credentials =
+      typeof credentials === "undefined"
+        ? undefined
+        : toCredentialProvider(credentials);
+    this.realm = realmUrl(options.realm);
+    this.authCache = options.authCache;
+    this.refreshBefore = options.refreshBefore ?? 60 * 60 * 1000;
+    if (this.refreshBefore < 0 || this.refreshBefore >= authorizationLifetime)
+      throw new BackblazeLibraryError.BadUsage(
+        "refreshBefore must be at least 0, and less than 24 hours."
+      );
+    this.fetch = createTransport(options);
+    this.retryPolicy =
+      options.retry instanceof RetryPolicy
+        ? options.retry
+        : new RetryPolicy(options.retry);
   }
 
-  private async authorize() {
-    this.auth = await authorize(this.credentials);
+  /**
+   * Authorizes the account again, unless the client has already replaced
+   * `staleToken`. Concurrent calls share one authorization.
+   *
+   * Only {@linkcode B2.authorize} retries `b2_authorize_account` with the
+   * policy. Requests authorize once per attempt, as they are retried already.
+   */
+  private reauthorize(
+    staleToken?: string,
+    retry: boolean = false
+  ): Promise<void> {
+    if (
+      typeof staleToken !== "undefined" &&
+      this.session &&
+      this.auth.authorizationToken !== staleToken
+    )
+      return Promise.resolve();
+
+    if (typeof this.authorizing === "undefined")
+      this.authorizing = this.authorize(staleToken, retry).finally(() => {
+        this.authorizing = undefined;
+      });
+    return this.authorizing;
+  }
+
+  /** Uses a cached session when there is a fresh one, or else authorizes the account. */
+  private async authorize(staleToken: string | undefined, retry: boolean) {
+    if (typeof this.credentials === "undefined")
+      throw new BackblazeLibraryError.BadUsage(
+        "The session has expired, and the client has no credentials to authorize with again."
+      );
+
+    // Asked each time, so that a rotated key replaces the one B2 rejected.
+    const credentials = await this.credentials();
+    const key = authCacheKey(this.realm, credentials.applicationKeyId);
+    if (typeof this.authCache !== "undefined") {
+      const cached = await this.authCache.get(key);
+      if (
+        typeof cached !== "undefined" &&
+        cached.authorization.authorizationToken !== staleToken &&
+        !this.isRefreshDue(cached)
+      ) {
+        this.session = cached;
+        return;
+      }
+    }
+
+    const authorizedAt = Date.now();
+    const policy = retry
+      ? this.retryPolicy
+      : this.retryPolicy.with({ maxAttempts: 1 });
+    const authorization = await policy.run(
+      "b2_authorize_account",
+      (attempt) => authorize(credentials, this.fetch, this.realm, attempt)
+    );
+    this.session = {
+      realm: this.realm,
+      authorization,
+      authorizedAt,
+      expiresAt: authorizedAt + authorizationLifetime,
+    };
+
+    if (typeof this.authCache !== "undefined")
+      await this.authCache.set(key, this.session);
+  }
+
+  private isRefreshDue(session: B2Session) {
+    return Date.now() >= session.expiresAt - this.refreshBefore;
+  }
+
+  /**
+   * Waits for any authorization in progress, and authorizes again when the
+   * token is about to expire.
+   */
+  private async ensureAuthorized() {
+    if (typeof this.authorizing !== "undefined") await this.authorizing;
+    if (!this.isRefreshDue(this.session)) return;
+
+    try {
+      await this.reauthorize(this.auth.authorizationToken);
+    } catch (err) {
+      // The token can still be used until it expires.
+      if (Date.now() >= this.session.expiresAt) throw err;
+    }
   }
 
   /**
@@ -62,13 +298,55 @@ export default class B2 {
    *   applicationKey: "SECRET_KEY"
    * });
    * ```
+   *
+   * The credentials can also come from a {@linkcode CredentialProvider},
+   * such as {@linkcode environmentCredentials}, {@linkcode configFileCredentials}
+   * or an async function which fetches them from a secret manager.
+   *
+   * Pass {@linkcode ClientOptions} to send requests with another `fetch`,
+   * agent or proxy, or to authorize with another realm, such as an emulator.
+   */
+  static async authorize(
+    credentials: B2Credentials | CredentialProvider,
+    options: ClientOptions = {}
+  ): Promise<B2> {
+    const b2 = new B2(credentials, options);
+    await b2.reauthorize(undefined, true);
+    return b2;
+  }
+
+  /**
+   * Create a B2 client from a session exported by another, without calling
+   * `b2_authorize_account`.
+   *
+   * ```js
+   * const session = b2.exportSession();
+   * // later, or elsewhere
+   * const b2 = B2.fromSession(session, credentials);
+   * ```
+   *
+   * Without `credentials`, the client can't authorize again, and fails once
+   * the session expires.
    */
-  static async authorize(credentials: B2Credentials): Promise<B2> {
-    const b2 = new B2(credentials);
-    await b2.authorize();
+  static fromSession(
+    session: B2Session,
+    credentials?: B2Credentials | CredentialProvider,
+    options: ClientOptions = {}
+  ): B2 {
+    const b2 = new B2(credentials, { ...options, realm: session.realm });
+    b2.session = session;
     return b2;
   }
 
+  /**
+   * The client's current authorization, which can be saved and passed to
+   * {@linkcode B2.fromSession}. It contains the authorization token, so keep
+   * it secret.
+   */
+  exportSession(): B2Session {
+    return { ...this.session };
+  }
+
   /** @internal */
   static uriEncodeString(decoded: string) {
     return encodeURIComponent(decoded).replace(/%2F/g, "/");
@@ -80,91 +358,51 @@ export default class B2 {
   }
 
   private async request(
+    operation: string,
     url: string,
     request: RequestInit,
-    _options: RequestOptions,
-    retries: number = 0
+    options: RequestOptions
   ): Promise<Response> {
-    const options = { maxRetries: 5, backoff: 150, ..._options };
-    const { maxRetries, backoff } = options;
+    const policy = this.retryPolicy.with(options.retry);
 
-    let res: Response;
-    try {
-      res = await fetch(url, {
-        ...request,
-        headers: {
-          ...request.headers,
-          Authorization: this.auth.authorizationToken,
-          "User-Agent": B2.userAgent,
-        },
-      });
-    } catch {
-      return new Promise((res, rej) => {
-        setTimeout(() => {
-          this.request(
-            url,
-            request,
-            { ...options, backoff: backoff * 2 },
-            retries + 1
-          ).then(res, rej);
-        }, backoff * (0.5 + Math.random()));
-      });
-    }
+    return policy.run(
+      operation,
+      async (attempt) => {
+        await this.ensureAuthorized();
+        const token = this.auth.authorizationToken;
 
-    if (res.status === 200) {
-      return res;
-    } else {
-      const data = (await res.json()) as BackblazeErrorResponse;
-      switch (data.code) {
-        case "bad_request":
-          throw new BackblazeServerError.BadRequest(data);
-        case "unauthorized":
-          throw new BackblazeServerError.UnauthorizedRequest(data);
-        case "download_cap_exceeded":
-          throw new BackblazeServerError.DownloadCapExceeded(data);
-        case "bad_auth_token":
-        case "expired_auth_token":
-          if (retries < maxRetries) {
-            await this.authorize();
-            return this.request(url, request, options, retries + 1);
-          } else {
-            throw new BackblazeServerError.ExpiredCredentials(data);
-          }
-        default:
-          switch (data.status) {
-            case 400:
-              throw new BackblazeServerError.BadRequest(data);
-            case 403:
-              throw new BackblazeServerError.Forbidden(data);
-            case 416:
-              throw new BackblazeServerError.RangeNotSatisfiable(data);
-            case 500:
-              throw new BackblazeServerError.InternalServerError(data);
-            case 408:
-              if (retries >= maxRetries)
-                throw new BackblazeServerError.RequestTimeout(data);
-            case 500:
-              if (retries >= maxRetries)
-                throw new BackblazeServerError.InternalServerError(data);
-            case 503:
-              if (retries >= maxRetries)
-                throw new BackblazeServerError.ServiceUnavailable(data);
-
-              return new Promise((res, rej) => {
-                setTimeout(() => {
-                  this.request(
-                    url,
-                    request,
-                    { ...options, backoff: backoff * 2 },
-                    retries + 1
-                  ).then(res, rej);
-                }, backoff * (0.5 + Math.random()));
-              });
-            default:
-              throw new BackblazeServerError.UnknownServerError(data);
-          }
-      }
-    }
+        let res: Response;
+        try {
+          res = await this.fetch(url, {
+            ...request,
+            headers: {
+              ...request.headers,
+              Authorization: token,
+              "User-Agent": B2.userAgent,
+            },
+          });
+        } catch (err) {
+          throw networkError(err, requestContext(operation, url, attempt));
+        }
+
+        if (
+          res.status === 200 ||
+          res.status === 206 /** partial content */ ||
+          res.status === 304 /** not modified */
+        )
+          return res;
+
+        const error = await responseError(
+          res,
+          requestContext(operation, url, attempt, res)
+        );
+        // Retried with a new token, if the policy allows it.
+        if (error instanceof BackblazeServerError.ExpiredCredentials)
+          await this.reauthorize(token);
+        throw error;
+      },
+      request.signal
+    );
   }
 
   /** Call a b2 operation by name */
@@ -176,7 +414,58 @@ export default class B2 {
     const url = [this.auth.apiUrl, "b2api", B2.apiVersion, operationName].join(
       "/"
     );
-    return this.request(url, request, opts);
+    return this.request(operationName, url, request, opts);
+  }
+
+  /**
+   * Calls an operation of the native API by name, with the request and
+   * response types of the operation.
+   *
+   * ```js
+   * const { files } = await b2.call("b2_list_file_names", {
+   *   bucketId: "BUCKET_ID",
+   *   prefix: "photos/",
+   * });
+   * ```
+   */
+  async call<Op extends OperationName>(
+    operationName: Op,
+    params: OperationRequest<Op>,
+    { signal, ...opts }: CallOptions = {}
+  ): Promise<OperationResponse<Op>> {
+    const { capability, bucket, fileName, sourceCapability } = operationScope(
+      operationName,
+      params
+    );
+    this.assertAllowed(operationName, capability, bucket, fileName);
+    if (typeof sourceCapability !== "undefined")
+      this.assertAllowed(operationName, sourceCapability);
+
+    const res = await this.callApi(
+      operationName,
+      { method: "POST", body: JSON.stringify(params), signal },
+      opts
+    );
+    return await res.json();
+  }
+
+  /**
+   * Downloads the bytes B2 stores, without decompressing files uploaded with a
+   * `Content-Encoding` such as gzip, as their SHA1s and lengths are of those
+   * bytes.
+   */
+  private download(
+    operation: string,
+    url: string,
+    request: RequestInit,
+    options: RequestOptions
+  ) {
+    return this.request(
+      operation,
+      url,
+      { ...request, compress: false },
+      options
+    );
   }
 
   /** @internal */
@@ -185,13 +474,23 @@ export default class B2 {
     request: RequestInit,
     opts: RequestOptions = {}
   ) {
+    this.assertAllowed(operationName.split("?")[0], "readFiles");
+
     const url = [
       this.auth.downloadUrl,
       "b2api",
       B2.apiVersion,
       operationName,
     ].join("/");
-    return this.request(url, request, opts);
+    return this.download(operationName.split("?")[0], url, request, opts);
+  }
+
+  /** @internal */
+  downloadFileByNameUrl(bucketName: string, fileName?: string) {
+    const url = [this.auth.downloadUrl, "file", bucketName].join("/");
+    return typeof fileName === "undefined"
+      ? url
+      : url + "/" + B2.uriEncodeString(fileName);
   }
 
   /** @internal */
@@ -201,8 +500,15 @@ export default class B2 {
     request: RequestInit,
     opts: RequestOptions = {}
   ) {
-    const url = [this.auth.downloadUrl, "file", bucketName, fileName].join("/");
-    return this.request(url, request, opts);
+    this.assertAllowed(
+      "b2_download_file_by_name",
+      "readFiles",
+      { bucketName },
+      fileName
+    );
+
+    const url = this.downloadFileByNameUrl(bucketName, fileName);
+    return this.download("b2_download_file_by_name", url, request, opts);
   }
 
   /**
@@ -223,10 +529,216 @@ export default class B2 {
    */
   bucket(info: MinimumBucketInfo): Promise<Bucket>;
 
-  async bucket(info: string | MinimumBucketInfo): Promise<Bucket> {
-    return new Bucket(
-      this,
-      typeof info === "string" ? { bucketName: info } : info
+  /**
+   * Get the bucket the key is restricted to.
+   *
+   * ```js
+   * const bucket = await b2.bucket();
+   * ```
+   *
+   * @throws {@linkcode BackblazeLibraryError.BadUsage} When the key is not restricted to a bucket.
+   */
+  bucket(): Promise<Bucket>;
+
+  /**
+   * When the key is restricted to a bucket, the bucket's id and name are
+   * filled in from the authorization.
+   *
+   * @throws {@linkcode BackblazeLibraryError.NotAllowed} When the key is restricted to another bucket.
+   */
+  async bucket(info?: string | MinimumBucketInfo): Promise<Bucket> {
+    const requested = typeof info === "string" ? { bucketName: info } : info;
+    const { bucketId, bucketName } = this.auth.allowed;
+
+    if (!bucketId) {
+      if (typeof requested === "undefined")
+        throw new BackblazeLibraryError.BadUsage(
+          "A bucket must be given, unless the key is restricted to one."
+        );
+      return new Bucket(this, requested);
+    }
+
+    if (
+      typeof requested !== "undefined" &&
+      !isAllowedBucket(this.auth.allowed, requested)
+    )
+      throw new BackblazeLibraryError.NotAllowed(
+        `The key is restricted to the bucket "${bucketName || bucketId}".`
+      );
+
+    return new Bucket(this, {
+      ...requested,
+      bucketId,
+      ...(bucketName && { bucketName }),
+    });
+  }
+
+  /**
+   * Create a new bucket.
+   *
+   * ```js
+   * const bucket = await b2.createBucket("js-testing-bucket", {
+   *   bucketType: "allPrivate"
+   * });
+   * ```
+   *
+   * @throws {@linkcode BackblazeLibraryError.BadUsage} When a rule is invalid, before calling B2.
+   * @throws {@linkcode BackblazeServerError.BadRequest} When the name is taken or invalid.
+   * @throws When `defaultRetention` can't be set on the new bucket, once the
+   * bucket has been deleted again, so that it is created with all of its
+   * options or not at all.
+   */
+  async createBucket(
+    bucketName: string,
+    options: CreateBucketOptions
+  ): Promise<Bucket> {
+    validateBucketOptions(options);
+
+    const { defaultRetention, ...createOptions } = options;
+
+    const info = await this.call("b2_create_bucket", {
+      ...createOptions,
+      accountId: this.auth.accountId,
+      bucketName,
+    });
+    const bucket = new Bucket(this, info);
+
+    // Default retention can only be set once the bucket exists.
+    if (typeof defaultRetention !== "undefined") {
+      try {
+        await bucket.update({ defaultRetention });
+      } catch (err) {
+        // The bucket is empty, so it can be deleted. Should that fail too,
+        // the error setting the retention is the one to report.
+        await bucket.delete().catch(() => {});
+        throw err;
+      }
+    }
+
+    return bucket;
+  }
+
+  /**
+   * List the buckets in the account, in alphabetical order by bucket name.
+   *
+   * ```js
+   * const buckets = await b2.listBuckets({ bucketTypes: ["allPrivate"] });
+   * ```
+   */
+  async listBuckets(
+    filter: {
+      bucketId?: string;
+      bucketName?: string;
+      bucketTypes?: (BucketType | string)[];
+      signal?: AbortSignal;
+    } = {}
+  ): Promise<Bucket[]> {
+    const { signal, ...query } = filter;
+
+    // Keys restricted to a bucket may only list that bucket.
+    const { bucketId } = this.auth.allowed;
+    if (
+      bucketId &&
+      typeof query.bucketId === "undefined" &&
+      typeof query.bucketName === "undefined" &&
+      !this.capabilities.includes("listAllBucketNames")
+    )
+      query.bucketId = bucketId;
+
+    const { buckets } = await this.call(
+      "b2_list_buckets",
+      { ...query, accountId: this.auth.accountId },
+      { signal }
     );
+    return buckets.map((info) => new Bucket(this, info));
+  }
+
+  /**
+   * Create a new application key.
+   *
+   * ```js
+   * const key = await b2.createKey({
+   *   keyName: "tenant-1",
+   *   capabilities: ["listFiles", "readFiles", "writeFiles"],
+   *   bucketId: "BUCKET_ID",
+   *   namePrefix: "tenant-1/"
+   * });
+   * const tenantB2 = await B2.authorize(key);
+   * ```
+   *
+   * @throws {@linkcode BackblazeLibraryError.BadUsage} When a `namePrefix` is given without a `bucketId`,
+   * or the duration is out of range.
+   */
+  async createKey(options: CreateKeyOptions): Promise<CreatedApplicationKeyData> {
+    const { validDurationInSeconds, bucketId, namePrefix } = options;
+
+    if (typeof namePrefix !== "undefined" && typeof bucketId === "undefined")
+      throw new BackblazeLibraryError.BadUsage(
+        "A key restricted to a namePrefix must also be restricted to a bucketId."
+      );
+
+    if (
+      typeof validDurationInSeconds !== "undefined" &&
+      (!Number.isInteger(validDurationInSeconds) ||
+        validDurationInSeconds <= 0 ||
+        validDurationInSeconds > 1000 * 24 * 60 * 60)
+    )
+      throw new BackblazeLibraryError.BadUsage(
+        "validDurationInSeconds must be a positive whole number of seconds, up to 1000 days."
+      );
+
+    return await this.call("b2_create_key", {
+      ...options,
+      accountId: this.auth.accountId,
+    });
   }
+
+  /**
+   * Lists the application keys in the account.
+   *
+   * ```js
+   * for await (const key of b2.listKeys()) {
+   *   console.log(key.keyName, key.applicationKeyId);
+   * }
+   * ```
+   */
+  async *listKeys({
+    batchSize,
+    startApplicationKeyId,
+    signal,
+  }: ListKeysOptions = {}): AsyncIterable<ApplicationKeyData> {
+    while (true) {
+      const { keys, nextApplicationKeyId } = await this.call(
+        "b2_list_keys",
+        {
+          accountId: this.auth.accountId,
+          maxKeyCount: batchSize,
+          startApplicationKeyId,
+        },
+        { signal }
+      );
+
+      yield* keys;
+
+      if (nextApplicationKeyId === null) break;
+
+      startApplicationKeyId = nextApplicationKeyId;
+    }
+  }
+
+  /**
+   * Deletes an application key.
+   *
+   * @returns the key which was deleted.
+   */
+  async deleteKey(applicationKeyId: string): Promise<ApplicationKeyData> {
+    return await this.call("b2_delete_key", { applicationKeyId });
+  }
+}
+
+function toBucketScope(
+  bucket: Bucket | MinimumBucketInfo | string | undefined
+): BucketScope | undefined {
+  if (typeof bucket === "string") return { bucketName: bucket };
+  return bucket instanceof Bucket ? bucket.info : bucket;
 }
@@ -0,0 +1,243 @@
+import { BackblazeLibraryError } from "./errors";
+
+/** The operations which a CORS rule can allow. */
+export type CorsOperation =
+  | "b2_download_file_by_name"
+  | "b2_download_file_by_id"
+  | "b2_upload_file"
+  | "b2_upload_part"
+  | "s3_delete"
+  | "s3_get"
+  | "s3_head"
+  | "s3_post"
+  | "s3_put";
+
+const corsOperations: CorsOperation[] = [
+  "b2_download_file_by_name",
+  "b2_download_file_by_id",
+  "b2_upload_file",
+  "b2_upload_part",
+  "s3_delete",
+  "s3_get",
+  "s3_head",
+  "s3_post",
+  "s3_put",
+];
+
+/**
+ * A rule allowing browsers on other origins to access the bucket.
+ *
+ * See [CORS Rules] for details.
+ *
+ * [CORS Rules]: https://www.backblaze.com/b2/docs/cors_rules.html
+ */
+export interface CorsRule {
+  /**
+   * A name for humans to recognize the rule in a user interface.
+   *
+   * Names must be unique within a bucket, between 6 and 50 characters long,
+   * may only use letters, numbers and "-", and may not start with "b2-".
+   */
+  corsRuleName: string;
+
+  /**
+   * The origins covered by this rule, such as `"https://www.example.com"`,
+   * `"https://*.example.com"`, `"https"` or `"*"`.
+   *
+   * Each origin may contain at most one "*" wildcard.
+   */
+  allowedOrigins: string[];
+
+  /** The operations which may be made by the allowed origins. */
+  allowedOperations: CorsOperation[];
+
+  /**
+   * The headers which are allowed in a pre-flight request.
+   * Each may contain at most one "*" wildcard.
+   */
+  allowedHeaders?: string[];
+
+  /** The headers which may be exposed to the browser in responses. */
+  exposeHeaders?: string[];
+
+  /**
+   * The number of seconds a browser may cache the response to a pre-flight
+   * request, between 0 and 86400 (one day).
+   */
+  maxAgeSeconds: number;
+}
+
+/**
+ * A rule which automatically hides and deletes old file versions.
+ *
+ * See [Lifecycle Rules] for details.
+ *
+ * [Lifecycle Rules]: https://www.backblaze.com/b2/docs/lifecycle_rules.html
+ */
+export interface LifecycleRule {
+  /** The rule applies to files whose names start with this prefix. May be `""`. */
+  fileNamePrefix: string;
+
+  /** How long after a file is uploaded to hide it. `null` to never hide. */
+  daysFromUploadingToHiding: number | null;
+
+  /** How long after a file is hidden to delete it. `null` to never delete. */
+  daysFromHidingToDeleting: number | null;
+}
+
+/** User data stored with a bucket. */
+export type BucketInfoData = Record<string, string>;
+
+/** The most CORS rules allowed on a bucket. */
+export const maxCorsRules = 100;
+
+/** The most lifecycle rules allowed on a bucket. */
+export const maxLifecycleRules = 100;
+
+/** The most keys allowed in a bucket's info. */
+export const maxBucketInfoKeys = 10;
+
+const corsRuleNamePattern = /^[A-Za-z0-9-]{6,50}$/;
+
+function countWildcards(s: string) {
+  return s.split("*").length - 1;
+}
+
+/**
+ * Checks CORS rules against the limits B2 enforces.
+ *
+ * @throws {@linkcode BackblazeLibraryError.BadUsage} Naming the first invalid rule.
+ */
+export function validateCorsRules(rules: CorsRule[]): void {
+  if (rules.length > maxCorsRules)
+    throw new BackblazeLibraryError.BadUsage(
+      `A bucket may have at most ${maxCorsRules} CORS rules, but ${rules.length} were given.`
+    );
+
+  const names = new Set<string>();
+
+  for (const rule of rules) {
+    const { corsRuleName: name } = rule;
+    const fail = (problem: string) => {
+      throw new BackblazeLibraryError.BadUsage(
+        `Invalid CORS rule "${name}": ${problem}`
+      );
+    };
+
+    if (typeof name !== "string" || !corsRuleNamePattern.test(name))
+      fail(
+        "the name must be 6 to 50 characters of letters, numbers and dashes."
+      );
+    if (name.startsWith("b2-")) fail('the name may not start with "b2-".');
+    if (names.has(name)) fail("the name is used by more than one rule.");
+    names.add(name);
+
+    if (!Array.isArray(rule.allowedOrigins) || rule.allowedOrigins.length === 0)
+      fail("at least one origin must be allowed.");
+    for (const origin of rule.allowedOrigins) {
+      if (origin.length === 0) fail("origins may not be empty.");
+      if (countWildcards(origin) > 1)
+        fail(`the origin "${origin}" has more than one "*".`);
+    }
+
+    if (
+      !Array.isArray(rule.allowedOperations) ||
+      rule.allowedOperations.length === 0
+    )
+      fail("at least one operation must be allowed.");
+    for (const operation of rule.allowedOperations) {
+      if (!corsOperations.includes(operation))
+        fail(`"${operation}" is not an operation.`);
+    }
+
+    for (const header of rule.allowedHeaders || []) {
+      if (countWildcards(header) > 1)
+        fail(`the allowed header "${header}" has more than one "*".`);
+    }
+
+    if (
+      !Number.isInteger(rule.maxAgeSeconds) ||
+      rule.maxAgeSeconds < 0 ||
+      rule.maxAgeSeconds > 86400
+    )
+      fail("maxAgeSeconds must be a whole number from 0 to 86400.");
+  }
+}
+
+/**
+ * Checks lifecycle rules against the limits B2 enforces.
+ *
+ * No rule's prefix may be a prefix of another rule's.
+ *
+ * @throws {@linkcode BackblazeLibraryError.BadUsage} Naming the first invalid rule.
+ */
+export function validateLifecycleRules(rules: LifecycleRule[]): void {
+  if (rules.length > maxLifecycleRules)
+    throw new BackblazeLibraryError.BadUsage(
+      `A bucket may have at most ${maxLifecycleRules} lifecycle rules, but ${rules.length} were given.`
+    );
+
+  rules.forEach((rule, i) => {
+    const { fileNamePrefix: prefix } = rule;
+    const fail = (problem: string) => {
+      throw new BackblazeLibraryError.BadUsage(
+        `Invalid lifecycle rule for prefix "${prefix}": ${problem}`
+      );
+    };
+
+    if (typeof prefix !== "string") fail("fileNamePrefix must be a string.");
+
+    const { daysFromUploadingToHiding, daysFromHidingToDeleting } = rule;
+    for (const [field, days] of [
+      ["daysFromUploadingToHiding", daysFromUploadingToHiding],
+      ["daysFromHidingToDeleting", daysFromHidingToDeleting],
+    ] as const) {
+      if (days !== null && (!Number.isInteger(days) || days <= 0))
+        fail(`${field} must be a positive whole number or null.`);
+    }
+    if (daysFromUploadingToHiding === null && daysFromHidingToDeleting === null)
+      fail("at least one of the day counts must be set.");
+
+    for (const other of rules.slice(i + 1)) {
+      if (
+        other.fileNamePrefix.startsWith(prefix) ||
+        prefix.startsWith(other.fileNamePrefix)
+      )
+        fail(`it overlaps the rule for prefix "${other.fileNamePrefix}".`);
+    }
+  });
+}
+
+/**
+ * Checks a bucket's info against the limits B2 enforces.
+ *
+ * @throws {@linkcode BackblazeLibraryError.BadUsage}
+ */
+export function validateBucketInfo(info: BucketInfoData): void {
+  const keys = Object.keys(info);
+  if (keys.length > maxBucketInfoKeys)
+    throw new BackblazeLibraryError.BadUsage(
+      `Bucket info may have at most ${maxBucketInfoKeys} keys, but ${keys.length} were given.`
+    );
+
+  for (const key of keys) {
+    if (typeof info[key] !== "string")
+      throw new BackblazeLibraryError.BadUsage(
+        `Bucket info "${key}" must be a string.`
+      );
+  }
+}
+
+/** @internal */
+export function validateBucketOptions(options: {
+  bucketInfo?: BucketInfoData;
+  corsRules?: CorsRule[];
+  lifecycleRules?: LifecycleRule[];
+}): void {
+  if (typeof options.bucketInfo !== "undefined")
+    validateBucketInfo(options.bucketInfo);
+  if (typeof options.corsRules !== "undefined")
+    validateCorsRules(options.corsRules);
+  if (typeof options.lifecycleRules !== "undefined")
+    validateLifecycleRules(options.lifecycleRules);
+}
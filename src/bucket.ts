@@ -1,7 +1,30 @@
+import { promises as fs, createReadStream } from "fs";
+import { basename } from "path";
 import B2 from "./b2";
 import File, { FileUploadOptions, FileData } from "./file";
 import SinglePartUpload from "./single-part-upload";
 import { BackblazeLibraryError } from "./errors";
+import { AbortSignal } from "./abort";
+import { BucketRetention, FileLockConfiguration } from "./object-lock";
+import { lookupMimeType } from "./mime-types";
+import uploadLargeFileFromPath from "./file-path-upload";
+import { retryOverrides } from "./retry-policy";
+import {
+  BucketInfoData,
+  CorsRule,
+  LifecycleRule,
+  validateBucketOptions,
+} from "./bucket-rules";
+import DownloadAuthorization, {
+  DownloadAuthorizationOptions,
+  maxDownloadAuthorizationDuration,
+  toDownloadParameters,
+} from "./download-authorization";
+import { ListBucketsRequest } from "./api-operations/list-buckets";
+import {
+  isReopenableBody,
+  ReopenableBody,
+} from "./api-operations/upload-part";
 
 export enum BucketType {
   allPublic = "allPublic",
@@ -32,31 +55,60 @@ export interface BucketInfo {
   bucketType: BucketType | Exclude<string, BucketType>;
 
   /** The user data stored with this bucket. */
-  bucketInfo: any;
+  bucketInfo: BucketInfoData;
 
   /**
    * The CORS rules for this bucket. See [CORS Rules] for an overview and the rule structure.
    *
    * [CORS Rules]: https://www.backblaze.com/b2/docs/cors_rules.html
    */
-  corsRules: any;
+  corsRules: CorsRule[];
 
   /**
    * The list of lifecycle rules for this bucket. See [Lifecycle Rules] for an overview and the rule structure.
    *
    * [Lifecycle Rules]: https://www.backblaze.com/b2/docs/lifecycle_rules.html
    */
-  lifecycleRules: any;
+  lifecycleRules: LifecycleRule[];
 
   /**
    * A counter that is updated every time the bucket is modified,
    * and can be used with the ifRevisionIs parameter to b2_update_bucket
    * to prevent colliding, simultaneous updates
    */
-  revision: any;
+  revision: number;
 
   /** A set of strings reserved for future use. */
-  options: any;
+  options: string[];
+
+  /** Whether Object Lock is enabled, and the retention given to new files. */
+  fileLockConfiguration?: FileLockConfiguration;
+}
+
+export interface UpdateBucketOptions {
+  bucketType?: BucketType | Exclude<string, BucketType>;
+
+  /** User data to store with the bucket, replacing the current data. */
+  bucketInfo?: BucketInfoData;
+
+  /** Replaces the bucket's current CORS rules. */
+  corsRules?: CorsRule[];
+
+  /** Replaces the bucket's current lifecycle rules. */
+  lifecycleRules?: LifecycleRule[];
+
+  /**
+   * The retention given to new files which don't set their own.
+   * Requires Object Lock to be enabled on the bucket.
+   */
+  defaultRetention?: BucketRetention;
+}
+
+export interface CreateBucketOptions extends UpdateBucketOptions {
+  bucketType: BucketType | Exclude<string, BucketType>;
+
+  /** Enables Object Lock. Once enabled, it cannot be disabled. */
+  fileLockEnabled?: boolean;
 }
 
 export interface ListFilesOptions {
@@ -106,6 +158,42 @@ export interface ListFilesOptions {
    * The delimiter character will be used to "break" file names into folders.
    */
   delimiter?: string;
+  /** Cancels the listing. */
+  signal?: AbortSignal;
+}
+
+export interface ListFileVersionsOptions extends ListFilesOptions {
+  /**
+   * The first file ID to return. `startFileName` must also be provided if
+   * `startFileId` is provided.
+   */
+  startFileId?: string;
+}
+
+export interface ListUnfinishedLargeFilesOptions {
+  /** Only return files whose names start with this prefix. */
+  namePrefix?: string;
+
+  /** The first upload to return. Used when continuing a listing. */
+  startFileId?: string;
+
+  /**
+   * The maximum number of files to return from each call to
+   * `b2_list_unfinished_large_files`.
+   *
+   * The default value is 100, and the maximum is 100.
+   */
+  batchSize?: number;
+  /** Cancels the listing. */
+  signal?: AbortSignal;
+}
+
+export interface UploadFileOptions extends FileUploadOptions {
+  /**
+   * Content types by extension, used instead of the defaults in
+   * {@linkcode mimeTypes} to guess the `contentType` when it is not given.
+   */
+  mimeTypes?: Record<string, string>;
 }
 
 export default class Bucket {
@@ -126,21 +214,22 @@ export default class Bucket {
   async _getFileDataBatch({
     batchSize,
     startFileName,
+    signal,
     ...options
   }: ListFilesOptions): Promise<{
     files: FileData[];
     nextFileName: string | null;
   }> {
-    const res = await this.b2.callApi("b2_list_file_names", {
-      method: "POST",
-      body: JSON.stringify({
+    return await this.b2.call(
+      "b2_list_file_names",
+      {
         ...options,
         bucketId: await this.getBucketId(),
         maxFileCount: batchSize,
         startFileName,
-      }),
-    });
-    return await res.json();
+      },
+      { signal }
+    );
   }
 
   /** 
@@ -154,13 +243,132 @@ export default class Bucket {
     ...options
   }: ListFilesOptions): AsyncIterable<FileData> {
     while (true) {
-      const { files, nextFileName } = await this._getFileDataBatch(options);
+      const { files, nextFileName } = await this._getFileDataBatch({
+        ...options,
+        batchSize,
+        startFileName,
+      });
+
+      yield* files;
+
+      if (nextFileName === null) break;
+
+      startFileName = nextFileName;
+    }
+  }
+
+  /**
+   * Lists file versions from B2, including hide markers and unfinished large files.
+   *
+   * @internal
+   */
+  async _getFileVersionsBatch({
+    batchSize,
+    startFileName,
+    startFileId,
+    signal,
+    ...options
+  }: ListFileVersionsOptions): Promise<{
+    files: FileData[];
+    nextFileName: string | null;
+    nextFileId: string | null;
+  }> {
+    return await this.b2.call(
+      "b2_list_file_versions",
+      {
+        ...options,
+        bucketId: await this.getBucketId(),
+        maxFileCount: batchSize,
+        startFileName,
+        startFileId,
+      },
+      { signal }
+    );
+  }
+
+  /**
+   * Lists the data of every version of every file from B2, in alphabetical
+   * order by file name and then from newest to oldest.
+   *
+   * Unlike {@linkcode listFileData}, this includes hidden versions, hide markers
+   * and large files which have been started but not finished.
+   *
+   * NOTE: b2_list_file_versions is a Class C transaction (see [Pricing]).
+   *
+   * [Pricing]: https://www.backblaze.com/b2/cloud-storage-pricing.html
+   */
+  async *listFileVersions({
+    batchSize,
+    startFileName,
+    startFileId,
+    ...options
+  }: ListFileVersionsOptions = {}): AsyncIterable<FileData> {
+    while (true) {
+      const {
+        files,
+        nextFileName,
+        nextFileId,
+      } = await this._getFileVersionsBatch({
+        ...options,
+        batchSize,
+        startFileName,
+        startFileId,
+      });
 
       yield* files;
 
       if (nextFileName === null) break;
 
       startFileName = nextFileName;
+      startFileId = nextFileId ?? undefined;
+    }
+  }
+
+  /**
+   * Lists every version of every file from B2.
+   *
+   * See {@linkcode listFileVersions}.
+   */
+  async *fileVersions(
+    options: ListFileVersionsOptions = {}
+  ): AsyncIterable<File> {
+    for await (const fileData of this.listFileVersions(options)) {
+      yield new File(this, fileData);
+    }
+  }
+
+  /**
+   * Lists large files which have been started, but not finished or canceled.
+   *
+   * To continue uploading one, see {@linkcode FileUploadOptions.resumeFileId}.
+   *
+   * ```js
+   * for await (const fileData of bucket.listUnfinishedLargeFiles()) {
+   *   const file = bucket.file(fileData);
+   *   source.pipe(file.createWriteStream({ resumeFileId: fileData.fileId }));
+   * }
+   * ```
+   */
+  async *listUnfinishedLargeFiles({
+    batchSize,
+    startFileId,
+    signal,
+    ...options
+  }: ListUnfinishedLargeFilesOptions = {}): AsyncIterable<FileData> {
+    const bucketId = await this.getBucketId();
+
+    while (true) {
+      const { files, nextFileId } = await this.b2.call(
+        "b2_list_unfinished_large_files",
+        { ...options, bucketId, maxFileCount: batchSize, startFileId },
+        { signal }
+      );
+
+      yield* files;
+
+      if (nextFileId === null) break;
+
+      startFileId = nextFileId;
     }
   }
 
@@ -194,34 +402,152 @@ export default class Bucket {
    * Reloads the `info` attribute from B2.
    */
   async refreshBucketInfo(): Promise<BucketInfo> {
-    const query: any = {
-      accountId: this.b2["auth"].accountId,
+    const query: ListBucketsRequest = {
+      accountId: this.b2.accountId,
     };
 
+    const { allowed } = this.b2;
     if (typeof this.info.bucketId !== "undefined") {
       query.bucketId = this.info.bucketId;
+    } else if (allowed.bucketId && allowed.bucketName === this.info.bucketName) {
+      // Keys restricted to a bucket list it by its id.
+      query.bucketId = allowed.bucketId;
     } else {
       query.bucketName = this.info.bucketName;
     }
 
-    const res = await this.b2.callApi("b2_list_buckets", {
-      method: "POST",
-      body: JSON.stringify(query),
-    });
-
     const {
       buckets: [bucket],
-    }: { buckets: [] | [BucketInfo] } = await res.json();
+    } = await this.b2.call("b2_list_buckets", query);
 
     if (bucket) {
       return (this.info = bucket);
     } else {
       throw new BackblazeLibraryError.BadUsage(
-        "Bucket missing: " + this.info.bucketName || this.info.bucketInfo
+        "Bucket missing: " + (this.info.bucketName || this.info.bucketId)
       );
     }
   }
 
+  /**
+   * Changes the bucket's type, info, CORS rules or lifecycle rules.
+   *
+   * The update is only applied if the bucket has not been modified since
+   * `info.revision`, which is loaded first when unknown. Otherwise, a
+   * {@linkcode BackblazeServerError.Conflict} is thrown and you should
+   * {@linkcode refreshBucketInfo} before trying again.
+   *
+   * @throws {@linkcode BackblazeLibraryError.BadUsage} When a rule is invalid, before calling B2.
+   */
+  async update(changes: UpdateBucketOptions): Promise<BucketInfo> {
+    validateBucketOptions(changes);
+
+    const { bucketId, revision } =
+      typeof this.info.revision !== "undefined" &&
+      typeof this.info.bucketId !== "undefined"
+        ? this.info
+        : await this.refreshBucketInfo();
+
+    return (this.info = await this.b2.call("b2_update_bucket", {
+      ...changes,
+      accountId: this.b2.accountId,
+      bucketId: bucketId!,
+      ifRevisionIs: revision,
+    }));
+  }
+
+  /**
+   * Deletes the bucket. Only buckets which contain no file versions can be deleted.
+   *
+   * @returns the info of the bucket as it was before it was deleted.
+   */
+  async delete(): Promise<BucketInfo> {
+    return (this.info = await this.b2.call("b2_delete_bucket", {
+      accountId: this.b2.accountId,
+      bucketId: await this.getBucketId(),
+    }));
+  }
+
+  /** Download authorizations which may be reused, until `reusableUntil`. */
+  private readonly _downloadAuthorizations = new Map<
+    string,
+    { authorization: DownloadAuthorization; reusableUntil: number }
+  >();
+
+  /**
+   * Authorizes downloading files whose names start with `fileNamePrefix`
+   * from this (private) bucket, for `validDurationInSeconds`.
+   *
+   * Unless `cache` is `false`, a previous authorization for the same prefix,
+   * headers and duration is reused while nearly all of the duration remains
+   * on it: all but 5% of it, or a minute, whichever is less. So it is valid
+   * for about as long as asked for, and never longer.
+   *
+   * ```js
+   * const auth = await bucket.getDownloadAuthorization("public/", 3600);
+   * const url = auth.url("public/photo.jpg");
+   * ```
+   *
+   * @param validDurationInSeconds From 1 second to 1 week.
+   */
+  async getDownloadAuthorization(
+    fileNamePrefix: string,
+    validDurationInSeconds: number,
+    { cache = true, ...headers }: DownloadAuthorizationOptions = {}
+  ): Promise<DownloadAuthorization> {
+    if (
+      !Number.isInteger(validDurationInSeconds) ||
+      validDurationInSeconds < 1 ||
+      validDurationInSeconds > maxDownloadAuthorizationDuration
+    )
+      throw new BackblazeLibraryError.BadUsage(
+        "Download authorizations must be valid for a whole number of seconds, from 1 second to 1 week."
+      );
+
+    const parameters = toDownloadParameters(headers);
+    const cacheKey = JSON.stringify([
+      fileNamePrefix,
+      validDurationInSeconds,
+      parameters,
+    ]);
+
+    const now = Date.now();
+    for (const [key, { reusableUntil }] of this._downloadAuthorizations)
+      if (reusableUntil < now) this._downloadAuthorizations.delete(key);
+
+    const cached = this._downloadAuthorizations.get(cacheKey);
+    if (cache && cached) return cached.authorization;
+
+    const requestedAt = Date.now();
+    const [bucketId, bucketName] = await Promise.all([
+      this.getBucketId(),
+      this.getBucketName(),
+    ]);
+
+    const data = await this.b2.call("b2_get_download_authorization", {
+      ...parameters,
+      bucketId,
+      fileNamePrefix,
+      validDurationInSeconds,
+    });
+
+    const authorization = new DownloadAuthorization(
+      data,
+      requestedAt + validDurationInSeconds * 1000,
+      this.b2.downloadFileByNameUrl(bucketName),
+      parameters
+    );
+
+    if (cache)
+      this._downloadAuthorizations.set(cacheKey, {
+        authorization,
+        reusableUntil:
+          requestedAt + Math.min(60, validDurationInSeconds * 0.05) * 1000,
+      });
+
+    return authorization;
+  }
+
   private _singlePartUploads: SinglePartUpload[] = [];
   private async getSinglePartUpload(): Promise<SinglePartUpload> {
     let upload = this._singlePartUploads.pop();
@@ -235,26 +561,55 @@ export default class Bucket {
    * 
    * For larger files (recommended for 100MB, but no less than 5MB), see {@linkcode File.createWriteStream}.
    * 
+   * A Buffer is retried like any request, as is a {@linkcode ReopenableBody},
+   * which is read again for each attempt. A stream can only be sent once, so
+   * its upload is never retried, whatever the `retry` option.
+   *
    * @param fileName The name of the destination file.
-   * @param data Buffer or stream.
+   * @param data Buffer, stream, or a body to read for each attempt.
    * @param options Must have a `contentLength` attribute
    */
   async uploadSinglePart(
     fileName: string,
-    data: Buffer | NodeJS.ReadableStream,
+    data: Buffer | NodeJS.ReadableStream | ReopenableBody,
     options: FileUploadOptions & { contentLength: number }
   ): Promise<FileData> {
-    const singlePartUpload = await this.getSinglePartUpload();
-    try {
-      const fileData = await singlePartUpload.upload(fileName, data, options);
-
-      return fileData === false
-        ? this.uploadSinglePart(fileName, data, options)
-        : fileData;
-    } finally {
-      if (!singlePartUpload.inUse)
-        this._singlePartUploads.push(singlePartUpload);
-    }
+    this.b2.assertAllowed("b2_upload_file", "writeFiles", this.info, fileName);
+
+    let policy = this.b2.retryPolicy.with(retryOverrides(options));
+    // A stream can only be sent once.
+    if (!(data instanceof Buffer) && !isReopenableBody(data))
+      policy = policy.with({ maxAttempts: 1 });
+
+    const fileData = await policy.run(
+      "b2_upload_file",
+      async (attempt) => {
+        const singlePartUpload = await this.getSinglePartUpload();
+        try {
+          return await singlePartUpload.upload(
+            fileName,
+            data,
+            options,
+            attempt
+          );
+        } finally {
+          if (singlePartUpload.valid)
+            this._singlePartUploads.push(singlePartUpload);
+        }
+      },
+      options.signal
+    );
+
+    if (options.onProgress)
+      options.onProgress({
+        bytesTransferred: options.contentLength,
+        totalBytes: options.contentLength,
+        partsCompleted: 1,
+        partsTotal: 1,
+        partNumber: 1,
+      });
+
+    return fileData;
   }
 
   /**
@@ -271,6 +626,9 @@ export default class Bucket {
    * bucket.upload("test.txt", Buffer.from("*".repeat(101*1000*1000 /* 101MB *\/)));
    * ```
    * 
+   * Unlike a stream passed to {@linkcode uploadSinglePart}, the Buffer can be
+   * sent again, so failed uploads are retried.
+   *
    * @param fileName The name of the destination file.
    * @param data The file contents.
    * @param options 
@@ -293,7 +651,7 @@ export default class Bucket {
       return new File(this, fileData);
     } else {
       const file = new File(this, { fileName });
-      const writeStream = file.createWriteStream();
+      const writeStream = file.createWriteStream(options);
       return new Promise((res, rej) => {
         writeStream.on("error", rej);
         writeStream.on("finish", () => {
@@ -303,4 +661,64 @@ export default class Bucket {
       });
     }
   }
+
+  /**
+   * Upload a file from the filesystem.
+   *
+   * The library decides whether to conduct a single or multi-part upload based
+   * on the file's size. Unless given, the `contentType` is guessed from the
+   * extension and `src_last_modified_millis` is set from the file's mtime.
+   *
+   * The file, or each part of a multi-part upload, is read from disk again for
+   * each attempt to upload it, rather than being held in memory.
+   *
+   * ```js
+   * const file = await bucket.uploadFile("./backups/db.dump", "db/2020-06-01.dump", {
+   *   concurrency: 4
+   * });
+   * ```
+   *
+   * @param localPath The path of the file to upload.
+   * @param fileName The name of the destination file. Defaults to the local file's name.
+   */
+  async uploadFile(
+    localPath: string,
+    fileName: string = basename(localPath),
+    { mimeTypes, ...options }: UploadFileOptions = {}
+  ): Promise<File> {
+    const { size, mtime } = await fs.stat(localPath);
+
+    options = {
+      ...options,
+      contentType:
+        options.contentType ||
+        lookupMimeType(localPath, mimeTypes) ||
+        "application/octet-stream",
+      fileInfo: {
+        src_last_modified_millis: mtime.getTime().toString(),
+        ...options.fileInfo,
+      },
+    };
+
+    if (size <= this.b2.partSize && typeof options.resumeFileId === "undefined") {
+      const body: ReopenableBody = {
+        byteLength: size,
+        read: () => createReadStream(localPath),
+      };
+      const fileData = await this.uploadSinglePart(fileName, body, {
+        ...options,
+        contentLength: size,
+      });
+      return new File(this, fileData);
+    } else {
+      const file = new File(this, { fileName });
+      file["_fileData"] = await uploadLargeFileFromPath(
+        file,
+        localPath,
+        size,
+        options
+      );
+      return file;
+    }
+  }
 }
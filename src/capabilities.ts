@@ -0,0 +1,166 @@
+import {
+  B2KeyCapability,
+  KeyAllowedField,
+} from "./api-operations/authorize-account";
+import { OperationName } from "./api-operations";
+
+/** The bucket an operation acts on, by id or by name. */
+export interface BucketScope {
+  bucketId?: string;
+  bucketName?: string;
+}
+
+/** The capability each operation of the native API requires. */
+export const operationCapabilities: Record<OperationName, B2KeyCapability> = {
+  b2_cancel_large_file: "writeFiles",
+  b2_copy_file: "writeFiles",
+  b2_copy_part: "writeFiles",
+  b2_create_bucket: "writeBuckets",
+  b2_create_key: "writeKeys",
+  b2_delete_bucket: "deleteBuckets",
+  b2_delete_file_version: "deleteFiles",
+  b2_delete_key: "deleteKeys",
+  b2_finish_large_file: "writeFiles",
+  b2_get_download_authorization: "shareFiles",
+  b2_get_file_info: "readFiles",
+  b2_get_upload_part_url: "writeFiles",
+  b2_get_upload_url: "writeFiles",
+  b2_hide_file: "writeFiles",
+  b2_list_buckets: "listBuckets",
+  b2_list_file_names: "listFiles",
+  b2_list_file_versions: "listFiles",
+  b2_list_keys: "listKeys",
+  b2_list_parts: "writeFiles",
+  b2_list_unfinished_large_files: "listFiles",
+  b2_start_large_file: "writeFiles",
+  b2_update_bucket: "writeBuckets",
+  b2_update_file_legal_hold: "writeFileLegalHolds",
+  b2_update_file_retention: "writeFileRetentions",
+};
+
+/**
+ * Operations which read a source file as well, by the capability reading it
+ * requires. The source's bucket isn't among their parameters.
+ */
+const sourceCapabilities: { [Op in OperationName]?: B2KeyCapability } = {
+  b2_copy_file: "readFiles",
+  b2_copy_part: "readFiles",
+};
+
+/**
+ * Operations on every file whose name starts with a prefix, which must be
+ * within the key's own prefix, by the parameter which gives it.
+ */
+const prefixParameters: { [Op in OperationName]?: string } = {
+  b2_list_file_names: "prefix",
+  b2_list_file_versions: "prefix",
+  b2_list_unfinished_large_files: "namePrefix",
+  b2_get_download_authorization: "fileNamePrefix",
+};
+
+/**
+ * Whether a key may act on the bucket. A bucket without an id or a name
+ * stands for every bucket, which a restricted key may not act on.
+ *
+ * @internal
+ */
+export function isAllowedBucket(
+  { bucketId, bucketName }: KeyAllowedField,
+  bucket: BucketScope
+): boolean {
+  if (!bucketId) return true;
+  if (bucket.bucketId) return bucket.bucketId === bucketId;
+  return (
+    typeof bucket.bucketName !== "undefined" &&
+    bucket.bucketName === bucketName
+  );
+}
+
+/**
+ * Why a key may not use the capability on the bucket and file name, or
+ * `undefined` when it may.
+ *
+ * @internal
+ */
+export function capabilityDenial(
+  allowed: KeyAllowedField,
+  capability: B2KeyCapability,
+  bucket?: BucketScope,
+  fileName?: string
+): string | undefined {
+  const { capabilities, bucketId, bucketName, namePrefix } = allowed;
+
+  // Such keys may list every bucket, even when restricted to one.
+  if (
+    capability === "listBuckets" &&
+    capabilities.includes("listAllBucketNames")
+  )
+    return;
+
+  if (!capabilities.includes(capability))
+    return `the key does not have the "${capability}" capability`;
+
+  if (typeof bucket !== "undefined" && !isAllowedBucket(allowed, bucket))
+    return `the key is restricted to the bucket "${bucketName || bucketId}"`;
+
+  if (
+    typeof fileName !== "undefined" &&
+    namePrefix &&
+    !fileName.startsWith(namePrefix)
+  )
+    return `the key is restricted to file names starting with "${namePrefix}"`;
+}
+
+/** What an operation acts on, and the capabilities it requires to. */
+export interface OperationScope {
+  capability: B2KeyCapability;
+  bucket?: BucketScope;
+  fileName?: string;
+
+  /** Required as well, to read the source of a copy. */
+  sourceCapability?: B2KeyCapability;
+}
+
+function stringParameter(params: unknown, name: string): string | undefined {
+  if (typeof params !== "object" || params === null) return;
+  const value = (params as Record<string, unknown>)[name];
+  return typeof value === "string" ? value : undefined;
+}
+
+/**
+ * The capabilities an operation requires, and the bucket and file name it
+ * acts on, from its parameters.
+ *
+ * @internal
+ */
+export function operationScope(
+  operation: OperationName,
+  params: unknown
+): OperationScope {
+  const capability = operationCapabilities[operation];
+  const sourceCapability = sourceCapabilities[operation];
+
+  if (operation === "b2_list_buckets")
+    return {
+      capability,
+      bucket: {
+        bucketId: stringParameter(params, "bucketId"),
+        bucketName: stringParameter(params, "bucketName"),
+      },
+    };
+
+  const bucketId =
+    stringParameter(params, "destinationBucketId") ||
+    stringParameter(params, "bucketId");
+  const prefixParameter = prefixParameters[operation];
+
+  return {
+    capability,
+    bucket: bucketId ? { bucketId } : undefined,
+    fileName:
+      typeof prefixParameter !== "undefined"
+        ? stringParameter(params, prefixParameter) || ""
+        : stringParameter(params, "fileName"),
+    ...(sourceCapability && { sourceCapability }),
+  };
+}
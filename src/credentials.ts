@@ -0,0 +1,133 @@
+import { promises as fs } from "fs";
+import { homedir } from "os";
+import { join } from "path";
+import { B2Credentials } from "./api-operations/authorize-account";
+import { BackblazeLibraryError } from "./errors";
+
+/**
+ * Supplies the credentials to authorize with, such as from a secret manager.
+ *
+ * It is called each time the client authorizes, so that a rotated key is
+ * picked up when B2 rejects the old one.
+ */
+export type CredentialProvider = () => Promise<B2Credentials>;
+
+/**
+ * Reads the credentials from the `B2_APPLICATION_KEY_ID` and
+ * `B2_APPLICATION_KEY` environment variables.
+ */
+export function environmentCredentials(
+  env: NodeJS.ProcessEnv = process.env
+): CredentialProvider {
+  return async () => {
+    const applicationKeyId = env.B2_APPLICATION_KEY_ID;
+    const applicationKey = env.B2_APPLICATION_KEY;
+    if (!applicationKeyId || !applicationKey)
+      throw new BackblazeLibraryError.BadUsage(
+        "B2_APPLICATION_KEY_ID and B2_APPLICATION_KEY must both be set."
+      );
+    return { applicationKeyId, applicationKey };
+  };
+}
+
+export interface ConfigFileOptions {
+  /** Defaults to `B2_CONFIG_FILE`, or else `~/.b2/credentials`. */
+  path?: string;
+
+  /** Defaults to `B2_PROFILE`, or else `"default"`. */
+  profile?: string;
+}
+
+/**
+ * Reads the credentials of a profile from a config file, either JSON:
+ *
+ * ```json
+ * { "default": { "applicationKeyId": "KEY_ID", "applicationKey": "SECRET_KEY" } }
+ * ```
+ *
+ * or INI:
+ *
+ * ```ini
+ * [default]
+ * application_key_id = KEY_ID
+ * application_key = SECRET_KEY
+ * ```
+ */
+export function configFileCredentials({
+  path = process.env.B2_CONFIG_FILE || join(homedir(), ".b2", "credentials"),
+  profile = process.env.B2_PROFILE || "default",
+}: ConfigFileOptions = {}): CredentialProvider {
+  return async () => {
+    let contents: string;
+    try {
+      contents = await fs.readFile(path, "utf-8");
+    } catch (err) {
+      throw new BackblazeLibraryError.BadUsage(
+        `Could not read the config file ${path}: ${err.message}`
+      );
+    }
+
+    const profiles = /^\s*\{/.test(contents)
+      ? parseJsonConfig(contents, path)
+      : parseIniConfig(contents);
+
+    const settings = profiles[profile];
+    if (typeof settings !== "object" || settings === null)
+      throw new BackblazeLibraryError.BadUsage(
+        `The config file ${path} has no profile "${profile}".`
+      );
+
+    const applicationKeyId =
+      settings.applicationKeyId || settings.application_key_id;
+    const applicationKey = settings.applicationKey || settings.application_key;
+    if (!applicationKeyId || !applicationKey)
+      throw new BackblazeLibraryError.BadUsage(
+        `The profile "${profile}" of ${path} needs both an application key id and an application key.`
+      );
+
+    return { applicationKeyId, applicationKey };
+  };
+}
+
+type ConfigProfiles = Record<string, Record<string, string> | undefined>;
+
+function parseJsonConfig(contents: string, path: string): ConfigProfiles {
+  try {
+    return JSON.parse(contents);
+  } catch (err) {
+    throw new BackblazeLibraryError.BadUsage(
+      `The config file ${path} is not valid JSON: ${err.message}`
+    );
+  }
+}
+
+function parseIniConfig(contents: string): ConfigProfiles {
+  const profiles: ConfigProfiles = {};
+  let section: Record<string, string> | undefined;
+
+  for (const rawLine of contents.split(/\r?\n/)) {
+    const line = rawLine.trim();
+    if (line === "" || line.startsWith("#") || line.startsWith(";")) continue;
+
+    const header = /^\[\s*(.+?)\s*\]$/.exec(line);
+    if (header) {
+      section = profiles[header[1]] = profiles[header[1]] || {};
+      continue;
+    }
+
+    const setting = /^([^=]+?)\s*=\s*(.*)$/.exec(line);
+    if (setting && section)
+      section[setting[1]] = setting[2].replace(/^(["'])(.*)\1$/, "$2");
+  }
+
+  return profiles;
+}
+
+/** @internal */
+export function toCredentialProvider(
+  credentials: B2Credentials | CredentialProvider
+): CredentialProvider {
+  return typeof credentials === "function"
+    ? credentials
+    : async () => credentials;
+}
@@ -0,0 +1,116 @@
+import B2 from "./b2";
+import { BackblazeLibraryError } from "./errors";
+
+/**
+ * Values which override the headers B2 sends when a file is downloaded with
+ * an authorization. The same values are baked into the authorization token,
+ * and are added to every URL made with it.
+ */
+export interface DownloadResponseHeaders {
+  /** Overrides the `Content-Disposition` header. Must match RFC 6266. */
+  contentDisposition?: string;
+  /** Overrides the `Content-Language` header. */
+  contentLanguage?: string;
+  /** Overrides the `Expires` header. */
+  expires?: string;
+  /** Overrides the `Cache-Control` header. */
+  cacheControl?: string;
+  /** Overrides the `Content-Encoding` header. */
+  contentEncoding?: string;
+  /** Overrides the `Content-Type` header. */
+  contentType?: string;
+}
+
+export interface DownloadAuthorizationOptions extends DownloadResponseHeaders {
+  /**
+   * Whether to reuse, and remember, authorizations for the same prefix,
+   * headers and duration. Defaults to `true`.
+   */
+  cache?: boolean;
+}
+
+/** The longest an authorization may be valid, in seconds (one week). */
+export const maxDownloadAuthorizationDuration = 7 * 24 * 60 * 60;
+
+const parameterNames: Record<keyof DownloadResponseHeaders, string> = {
+  contentDisposition: "b2ContentDisposition",
+  contentLanguage: "b2ContentLanguage",
+  expires: "b2Expires",
+  cacheControl: "b2CacheControl",
+  contentEncoding: "b2ContentEncoding",
+  contentType: "b2ContentType",
+};
+
+/** @internal */
+export function toDownloadParameters(
+  headers: DownloadResponseHeaders
+): Record<string, string> {
+  const params: Record<string, string> = {};
+  for (const key of Object.keys(parameterNames) as Array<
+    keyof DownloadResponseHeaders
+  >) {
+    const val = headers[key];
+    if (typeof val !== "undefined") params[parameterNames[key]] = val;
+  }
+  return params;
+}
+
+/**
+ * Permission to download files starting with a prefix from a private bucket,
+ * without any other credentials.
+ */
+export default class DownloadAuthorization {
+  readonly bucketId: string;
+  readonly fileNamePrefix: string;
+  readonly authorizationToken: string;
+
+  /** When the authorization expires, in milliseconds since midnight, January 1, 1970 UTC. */
+  readonly expiresAt: number;
+
+  /** The URL of the bucket, under which files are downloaded by name. */
+  private readonly baseUrl: string;
+  private readonly parameters: Record<string, string>;
+
+  /** @internal */
+  constructor(
+    data: {
+      bucketId: string;
+      fileNamePrefix: string;
+      authorizationToken: string;
+    },
+    expiresAt: number,
+    baseUrl: string,
+    parameters: Record<string, string>
+  ) {
+    this.bucketId = data.bucketId;
+    this.fileNamePrefix = data.fileNamePrefix;
+    this.authorizationToken = data.authorizationToken;
+    this.expiresAt = expiresAt;
+    this.baseUrl = baseUrl;
+    this.parameters = parameters;
+  }
+
+  /** Whether the authorization will still be valid `seconds` from now. */
+  isValidFor(seconds: number): boolean {
+    return this.expiresAt - Date.now() >= seconds * 1000;
+  }
+
+  /**
+   * A URL which downloads the file, valid until the authorization expires.
+   *
+   * @throws {@linkcode BackblazeLibraryError.BadUsage} When the name does not start with the prefix.
+   */
+  url(fileName: string): string {
+    if (!fileName.startsWith(this.fileNamePrefix))
+      throw new BackblazeLibraryError.BadUsage(
+        `"${fileName}" is not covered by an authorization for the prefix "${this.fileNamePrefix}".`
+      );
+
+    const query = [["Authorization", this.authorizationToken]]
+      .concat(Object.entries(this.parameters))
+      .map(([key, val]) => key + "=" + encodeURIComponent(val))
+      .join("&");
+
+    return this.baseUrl + "/" + B2.uriEncodeString(fileName) + "?" + query;
+  }
+}
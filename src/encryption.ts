@@ -0,0 +1,105 @@
+import { createHash } from "crypto";
+import { BackblazeLibraryError } from "./errors";
+
+/** Files are encrypted with a key managed by B2. */
+export interface SseB2 {
+  mode: "SSE-B2";
+  algorithm: "AES256";
+}
+
+/**
+ * Files are encrypted with your own key, which B2 does not store. The same key
+ * must be given to download or copy the file.
+ */
+export interface SseC {
+  mode: "SSE-C";
+  algorithm: "AES256";
+  /** The base64-encoded 256-bit key. */
+  customerKey: string;
+  /** The base64-encoded MD5 of the key. Calculated when not given. */
+  customerKeyMd5?: string;
+}
+
+export type ServerSideEncryption = SseB2 | SseC;
+
+/** How a file is encrypted, as reported by B2. The customer key itself is never returned. */
+export interface FileEncryptionSettings {
+  mode: "SSE-B2" | "SSE-C" | null;
+  algorithm: "AES256" | null;
+  customerKeyMd5?: string;
+}
+
+function customerKeyMd5({ customerKey, customerKeyMd5 }: SseC): string {
+  if (typeof customerKeyMd5 !== "undefined") return customerKeyMd5;
+
+  const key = Buffer.from(customerKey, "base64");
+  if (key.byteLength !== 32)
+    throw new BackblazeLibraryError.BadUsage(
+      "An SSE-C customerKey must be a base64-encoded 256-bit key."
+    );
+  return createHash("md5").update(key).digest("base64");
+}
+
+/**
+ * The headers which encrypt an upload, or give the key to download an SSE-C file.
+ *
+ * Only SSE-C is sent with parts of a large file and downloads, since B2
+ * already knows the key for SSE-B2.
+ *
+ * @internal
+ */
+export function encryptionHeaders(
+  sse: ServerSideEncryption | undefined,
+  customerKeyOnly: boolean = false
+): Record<string, string> {
+  if (typeof sse === "undefined") return {};
+
+  switch (sse.mode) {
+    case "SSE-B2":
+      return customerKeyOnly
+        ? {}
+        : { "X-Bz-Server-Side-Encryption": sse.algorithm };
+    case "SSE-C":
+      return {
+        "X-Bz-Server-Side-Encryption-Customer-Algorithm": sse.algorithm,
+        "X-Bz-Server-Side-Encryption-Customer-Key": sse.customerKey,
+        "X-Bz-Server-Side-Encryption-Customer-Key-Md5": customerKeyMd5(sse),
+      };
+  }
+}
+
+/**
+ * The encryption settings as sent in the body of API calls, such as `b2_start_large_file`.
+ *
+ * @internal
+ */
+export function encryptionParameter(
+  sse: ServerSideEncryption | undefined
+): ServerSideEncryption | undefined {
+  if (typeof sse === "undefined") return undefined;
+
+  return sse.mode === "SSE-C"
+    ? { ...sse, customerKeyMd5: customerKeyMd5(sse) }
+    : { mode: sse.mode, algorithm: sse.algorithm };
+}
+
+/**
+ * @throws {@linkcode BackblazeLibraryError.BadUsage} When a file is encrypted
+ * with SSE-C, but no key was given.
+ *
+ * @internal
+ */
+export function requireCustomerKey(
+  settings: FileEncryptionSettings | undefined,
+  sse: ServerSideEncryption | undefined,
+  operation: string
+) {
+  if (
+    settings &&
+    settings.mode === "SSE-C" &&
+    (typeof sse === "undefined" || sse.mode !== "SSE-C")
+  )
+    throw new BackblazeLibraryError.BadUsage(
+      `The file is encrypted with SSE-C, so its key is needed to ${operation} it.`
+    );
+}
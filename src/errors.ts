@@ -1,19 +1,93 @@
-export class BackblazeLibraryError extends Error {}
+import { Response } from "node-fetch";
+
+/** The request an error was caused by. */
+export interface RequestContext {
+  /** The operation requested, such as `"b2_upload_part"`. */
+  operation: string;
+
+  /** The URL requested, without any authorization token. */
+  url: string;
+
+  /** Which attempt at the request failed, counting from 1. */
+  attempt: number;
+
+  /** The id of the request, when B2 responded with one. */
+  requestId?: string;
+}
+
+export class BackblazeLibraryError extends Error {
+  /** The request which failed, when the error was caused by one. */
+  readonly context?: RequestContext;
+
+  constructor(message?: string, context?: RequestContext) {
+    super(message);
+    this.name = new.target.name;
+    this.context = context;
+  }
+
+  /** Whether the operation may succeed if it is tried again. */
+  get isRetryable(): boolean {
+    return false;
+  }
+}
 
 export namespace BackblazeLibraryError {
-  export class BadUsage extends Error {}
+  export class BadUsage extends BackblazeLibraryError {}
+
+  export class Internal extends BackblazeLibraryError {}
+
+  export class FileNotFound extends BackblazeLibraryError {}
 
-  export class Internal extends Error {}
+  /** The data downloaded does not match the SHA1 checksum B2 has for the file. */
+  export class ChecksumMismatch extends BackblazeLibraryError {}
+
+  /** The operation was cancelled with an `AbortSignal`, or its stream was destroyed. */
+  export class Aborted extends BackblazeLibraryError {}
+
+  /**
+   * The key lacks the capability for the operation, or is restricted to another
+   * bucket or file name prefix. Thrown before any request is sent.
+   */
+  export class NotAllowed extends BackblazeLibraryError {}
 
-  export class FileNotFound extends Error {}
+  /** The request could not be sent, or its response could not be received. */
+  export class NetworkError extends BackblazeLibraryError {
+    /** The error the request failed with. */
+    readonly cause: unknown;
+
+    constructor(cause: unknown, context?: RequestContext) {
+      super(cause instanceof Error ? cause.message : String(cause), context);
+      this.cause = cause;
+    }
+
+    get isRetryable() {
+      return true;
+    }
+  }
 }
 
+const retryableStatuses = [408, 429, 500, 502, 503, 504];
+
 class BackblazeServerError extends BackblazeLibraryError {
   readonly apiData: BackblazeErrorResponse;
 
-  constructor(apiData: BackblazeErrorResponse) {
-    super(apiData.message);
+  /** How long B2 asked to wait before retrying, in milliseconds, from the `Retry-After` header. */
+  readonly retryAfter?: number;
+
+  constructor(
+    apiData: BackblazeErrorResponse,
+    {
+      retryAfter,
+      context,
+    }: { retryAfter?: number; context?: RequestContext } = {}
+  ) {
+    super(apiData.message, context);
     this.apiData = apiData;
+    this.retryAfter = retryAfter;
+  }
+
+  get isRetryable() {
+    return retryableStatuses.includes(this.apiData.status);
   }
 }
 
@@ -32,24 +106,77 @@ namespace BackblazeServerError {
    */
   export class BadRequest extends BackblazeServerError {}
 
+  /** A bucket with the name already exists, in this account or another. */
+  export class DuplicateBucketName extends BadRequest {}
+
+  /** The account has reached its limit of buckets. */
+  export class TooManyBuckets extends BadRequest {}
+
+  /** The bucket id is invalid, or the bucket no longer exists. */
+  export class BadBucketId extends BadRequest {}
+
+  /** Buckets must be empty before they are deleted. */
+  export class BucketNotEmpty extends BadRequest {}
+
+  /** The file version does not exist, or has been deleted. */
+  export class FileNotPresent extends BadRequest {}
+
+  /** A range, such as of a copy, is outside of the file. */
+  export class OutOfRange extends BadRequest {}
+
   export class UsageCapExceeded extends BackblazeServerError {}
   export class DownloadCapExceeded extends UsageCapExceeded {}
 
+  /** A usage cap, set on the account's Caps & Alerts page, has been reached. */
+  export class CapExceeded extends UsageCapExceeded {}
+
+  /** The account has reached its storage cap. */
+  export class StorageCapExceeded extends UsageCapExceeded {}
+
+  /** The account has reached its cap on class B or class C transactions. */
+  export class TransactionCapExceeded extends UsageCapExceeded {}
+
   /** The auth token is valid, but does not allow you to make this call with these parameters */
   export class UnauthorizedRequest extends BackblazeServerError {}
 
-  /** We normally try to reauthorize once before throwing this.  */
-  export class ExpiredCredentials extends BackblazeServerError {}
+  /** The key may not access the bucket or the file name. */
+  export class AccessDenied extends UnauthorizedRequest {}
+
+  /**
+   * The auth token is invalid or has expired. Requests are retried with a new
+   * token before throwing this.
+   */
+  export class ExpiredCredentials extends BackblazeServerError {
+    get isRetryable() {
+      return true;
+    }
+  }
 
   /** You have a reached a storage cap limit, or account access may be impacted in some other way; see the human-readable message. */
   export class Forbidden extends BackblazeServerError {}
 
+  /** The file, bucket or operation does not exist. */
+  export class NotFound extends BackblazeServerError {}
+
+  /** The request was sent with the wrong HTTP method. */
+  export class MethodNotAllowed extends BackblazeServerError {}
+
   /** The service timed out trying to read your request. */
   export class RequestTimeout extends BackblazeServerError {}
 
+  /**
+   * The request conflicts with the current state of the resource, such as when
+   * `ifRevisionIs` does not match a bucket's current revision because it was
+   * changed by someone else.
+   */
+  export class Conflict extends BackblazeServerError {}
+
   /** B2 may limit API requests on a per-account basis. */
   export class TooManyRequests extends BackblazeServerError {}
 
+  /** The file version is protected by Object Lock retention or a legal hold, and cannot be deleted or changed. */
+  export class FileLocked extends AccessDenied {}
+
   export class InternalServerError extends BackblazeServerError {}
 
   export class RangeNotSatisfiable extends BackblazeServerError {}
@@ -57,4 +184,168 @@ namespace BackblazeServerError {
   export class ServiceUnavailable extends BackblazeServerError {}
 }
 
+type ServerErrorClass = new (
+  ...args: ConstructorParameters<typeof BackblazeServerError>
+) => BackblazeServerError;
+
+/** Error classes by the code B2 responds with. */
+const errorsByCode: Record<string, ServerErrorClass | undefined> = {
+  bad_request: BackblazeServerError.BadRequest,
+  duplicate_bucket_name: BackblazeServerError.DuplicateBucketName,
+  too_many_buckets: BackblazeServerError.TooManyBuckets,
+  bad_bucket_id: BackblazeServerError.BadBucketId,
+  cannot_delete_non_empty_bucket: BackblazeServerError.BucketNotEmpty,
+  file_not_present: BackblazeServerError.FileNotPresent,
+  no_such_file: BackblazeServerError.FileNotPresent,
+  out_of_range: BackblazeServerError.OutOfRange,
+  unauthorized: BackblazeServerError.UnauthorizedRequest,
+  access_denied: BackblazeServerError.AccessDenied,
+  bad_auth_token: BackblazeServerError.ExpiredCredentials,
+  expired_auth_token: BackblazeServerError.ExpiredCredentials,
+  cap_exceeded: BackblazeServerError.CapExceeded,
+  storage_cap_exceeded: BackblazeServerError.StorageCapExceeded,
+  transaction_cap_exceeded: BackblazeServerError.TransactionCapExceeded,
+  download_cap_exceeded: BackblazeServerError.DownloadCapExceeded,
+  not_found: BackblazeServerError.NotFound,
+  method_not_allowed: BackblazeServerError.MethodNotAllowed,
+  request_timeout: BackblazeServerError.RequestTimeout,
+  conflict: BackblazeServerError.Conflict,
+  range_not_satisfiable: BackblazeServerError.RangeNotSatisfiable,
+  too_many_requests: BackblazeServerError.TooManyRequests,
+  internal_error: BackblazeServerError.InternalServerError,
+  service_unavailable: BackblazeServerError.ServiceUnavailable,
+};
+
+/** Error classes by status, for codes without their own class. */
+const errorsByStatus: Record<number, ServerErrorClass | undefined> = {
+  400: BackblazeServerError.BadRequest,
+  401: BackblazeServerError.UnauthorizedRequest,
+  403: BackblazeServerError.Forbidden,
+  404: BackblazeServerError.NotFound,
+  405: BackblazeServerError.MethodNotAllowed,
+  408: BackblazeServerError.RequestTimeout,
+  409: BackblazeServerError.Conflict,
+  416: BackblazeServerError.RangeNotSatisfiable,
+  429: BackblazeServerError.TooManyRequests,
+  500: BackblazeServerError.InternalServerError,
+  503: BackblazeServerError.ServiceUnavailable,
+};
+
+/** @internal */
+export function retryAfterDelay(res: Response): number | undefined {
+  const header = res.headers.get("retry-after");
+  if (header === null) return;
+
+  const seconds = Number(header);
+  if (!isNaN(seconds)) return Math.max(0, seconds * 1000);
+
+  const date = Date.parse(header);
+  return isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+/**
+ * Describes an attempt at a request, with any authorization token removed
+ * from its URL.
+ *
+ * @internal
+ */
+export function requestContext(
+  operation: string,
+  url: string,
+  attempt: number,
+  res?: Response
+): RequestContext {
+  let redacted = url;
+  try {
+    const parsed = new URL(url);
+    if (parsed.searchParams.has("Authorization")) {
+      parsed.searchParams.delete("Authorization");
+      redacted = parsed.toString();
+    }
+  } catch (err) {
+    // Not a URL, so it can't hold a token to remove.
+  }
+
+  const requestId =
+    res &&
+    (res.headers.get("x-bz-request-id") || res.headers.get("x-amz-request-id"));
+
+  return {
+    operation,
+    url: redacted,
+    attempt,
+    ...(requestId && { requestId }),
+  };
+}
+
+/**
+ * The error for a response from B2, by its code, or else by its status.
+ *
+ * @internal
+ */
+export function serverError(
+  data: BackblazeErrorResponse,
+  options: { retryAfter?: number; context?: RequestContext } = {}
+): BackblazeServerError {
+  const ErrorClass =
+    errorsByCode[data.code] ||
+    errorsByStatus[data.status] ||
+    BackblazeServerError.UnknownServerError;
+  return new ErrorClass(data, options);
+}
+
+/**
+ * Reads the error B2 responded with. Bodies which aren't B2's JSON errors,
+ * such as pages from a proxy, are described by their status instead.
+ *
+ * @internal
+ */
+export async function responseError(
+  res: Response,
+  context?: RequestContext
+): Promise<BackblazeServerError> {
+  const body = await res.text().catch(() => "");
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(body);
+  } catch (err) {
+    // Such as an HTML page from a proxy, which is described by its status.
+  }
+  const fields: Record<string, unknown> =
+    typeof parsed === "object" && parsed !== null
+      ? (parsed as Record<string, unknown>)
+      : {};
+
+  const data: BackblazeErrorResponse = {
+    status: typeof fields.status === "number" ? fields.status : res.status,
+    code: typeof fields.code === "string" ? fields.code : "unknown",
+    message:
+      typeof fields.message === "string"
+        ? fields.message
+        : `${res.status} ${res.statusText}` +
+          (body ? `: ${body.slice(0, 200)}` : ""),
+  };
+
+  return serverError(data, { retryAfter: retryAfterDelay(res), context });
+}
+
+/**
+ * The error for a request which failed before B2 responded.
+ *
+ * @internal
+ */
+export function networkError(
+  err: unknown,
+  context: RequestContext
+): BackblazeLibraryError {
+  if (err instanceof BackblazeLibraryError) return err;
+  if (err instanceof Error && err.name === "AbortError")
+    return new BackblazeLibraryError.Aborted(
+      "The operation was aborted.",
+      context
+    );
+  return new BackblazeLibraryError.NetworkError(err, context);
+}
+
 export default BackblazeServerError;
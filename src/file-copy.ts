@@ -0,0 +1,198 @@
+import B2 from "./b2";
+import { FileData, FileInfo } from "./file";
+import { BackblazeLibraryError } from "./errors";
+import { AbortSignal } from "./abort";
+import { GB, maximumPartCount } from "./file-sizes";
+import { ServerSideEncryption, encryptionParameter } from "./encryption";
+
+/** The largest file which can be copied with a single `b2_copy_file` call. */
+export const maximumSinglePartCopySize = 5 * GB;
+
+export enum MetadataDirective {
+  /** Keep the source file's content type and file info. */
+  copy = "COPY",
+  /** Use the content type and file info given with the copy. */
+  replace = "REPLACE",
+}
+
+export interface CopyOptions {
+  /**
+   * Whether to keep the source's content type and file info, or replace them
+   * with `contentType` and `fileInfo`. Defaults to `"COPY"`.
+   */
+  metadataDirective?: MetadataDirective | "COPY" | "REPLACE";
+
+  /** Required when replacing metadata. */
+  contentType?: string;
+
+  /** Only allowed when replacing metadata. */
+  fileInfo?: FileInfo;
+
+  /** Copy only part of the source, from `start` to `end` (inclusive). */
+  range?: { start: number; end?: number };
+
+  /**
+   * For sources larger than {@linkcode maximumSinglePartCopySize}, the most
+   * parts to copy at once. Defaults to 4.
+   */
+  concurrency?: number;
+
+  /** The key of the source file, which is required when it is encrypted with SSE-C. */
+  sourceServerSideEncryption?: ServerSideEncryption;
+
+  /** How to encrypt the new file. */
+  destinationServerSideEncryption?: ServerSideEncryption;
+
+  /** Cancels the copy. An unfinished large file is canceled on B2. */
+  signal?: AbortSignal;
+}
+
+/** @internal */
+export function rangeHeader(start: number, end: number) {
+  return `bytes=${start}-${end}`;
+}
+
+/**
+ * Rejects a range which starts at or past the end of the source, once its
+ * length is known.
+ *
+ * @internal
+ */
+export function validateCopyRange(
+  range: CopyOptions["range"],
+  contentLength: number
+) {
+  if (typeof range !== "undefined" && range.start >= contentLength)
+    throw new BackblazeLibraryError.BadUsage(
+      `The range must start before the end of the source, at ${contentLength} bytes.`
+    );
+}
+
+/** @internal */
+export function validateCopyOptions({
+  metadataDirective = MetadataDirective.copy,
+  contentType,
+  fileInfo,
+  range,
+  concurrency = 4,
+}: CopyOptions) {
+  if (metadataDirective === MetadataDirective.replace) {
+    if (typeof contentType === "undefined")
+      throw new BackblazeLibraryError.BadUsage(
+        "A contentType is required when replacing metadata in a copy."
+      );
+  } else if (
+    typeof contentType !== "undefined" ||
+    typeof fileInfo !== "undefined"
+  ) {
+    throw new BackblazeLibraryError.BadUsage(
+      'A contentType or fileInfo may only be given when the metadataDirective is "REPLACE".'
+    );
+  }
+
+  if (
+    typeof range !== "undefined" &&
+    (range.start < 0 ||
+      (typeof range.end !== "undefined" && range.end < range.start))
+  )
+    throw new BackblazeLibraryError.BadUsage(
+      "The end of a range must not be before its start."
+    );
+
+  if (!Number.isInteger(concurrency) || concurrency < 1)
+    throw new BackblazeLibraryError.BadUsage(
+      "Copy concurrency must be a whole number of at least 1."
+    );
+}
+
+/**
+ * Copies `length` bytes of a file, starting at `start`, as the parts of a
+ * new large file, several at a time.
+ *
+ * @internal
+ */
+export async function copyLargeFile(
+  b2: B2,
+  source: {
+    fileId: string;
+    start: number;
+    length: number;
+    serverSideEncryption?: ServerSideEncryption;
+  },
+  destination: {
+    bucketId: string;
+    fileName: string;
+    contentType: string;
+    fileInfo?: FileInfo | Record<string, any>;
+    serverSideEncryption?: ServerSideEncryption;
+  },
+  concurrency: number,
+  signal?: AbortSignal
+): Promise<FileData> {
+  const started = await b2.call(
+    "b2_start_large_file",
+    {
+      ...destination,
+      serverSideEncryption: encryptionParameter(
+        destination.serverSideEncryption
+      ),
+    },
+    { signal }
+  );
+  const largeFileId = started.fileId!;
+
+  const partSize = Math.max(
+    b2.partSize,
+    Math.ceil(source.length / maximumPartCount)
+  );
+  const partCount = Math.max(1, Math.ceil(source.length / partSize));
+  const partSha1Array: string[] = new Array(partCount);
+
+  let nextPart = 0;
+  const copyParts = async () => {
+    while (nextPart < partCount) {
+      const i = nextPart++;
+      const start = source.start + i * partSize;
+      const end = Math.min(start + partSize, source.start + source.length) - 1;
+
+      const part = await b2.call(
+        "b2_copy_part",
+        {
+          sourceFileId: source.fileId,
+          largeFileId,
+          partNumber: i + 1,
+          range: rangeHeader(start, end),
+          sourceServerSideEncryption: encryptionParameter(
+            source.serverSideEncryption
+          ),
+          // Parts only take the key of SSE-C; B2 manages the rest.
+          destinationServerSideEncryption:
+            destination.serverSideEncryption?.mode === "SSE-C"
+              ? encryptionParameter(destination.serverSideEncryption)
+              : undefined,
+        },
+        { signal }
+      );
+      partSha1Array[i] = part.contentSha1;
+    }
+  };
+
+  try {
+    await Promise.all(
+      Array.from({ length: Math.min(concurrency, partCount) }, copyParts)
+    );
+
+    return await b2.call(
+      "b2_finish_large_file",
+      { fileId: largeFileId, partSha1Array },
+      { signal }
+    );
+  } catch (err) {
+    // Stop the remaining parts, and don't leave the large file unfinished.
+    nextPart = partCount;
+    await b2
+      .call("b2_cancel_large_file", { fileId: largeFileId })
+      .catch(() => {});
+    throw err;
+  }
+}
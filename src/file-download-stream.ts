@@ -0,0 +1,220 @@
+import { PassThrough, TransformCallback } from "stream";
+import { createHash, Hash } from "crypto";
+import { Response } from "node-fetch";
+import B2 from "./b2";
+import { BackblazeLibraryError } from "./errors";
+import { AbortSignal, toAbortedError } from "./abort";
+import { ServerSideEncryption, encryptionHeaders } from "./encryption";
+import { DownloadProgress } from "./progress";
+
+export interface DownloadOptions {
+  /** The first byte to download, counting from 0. */
+  start?: number;
+
+  /** The last byte to download (inclusive). Defaults to the end of the file. */
+  end?: number;
+
+  /**
+   * Only download the file if its SHA1 does not match this ETag. Otherwise,
+   * the stream ends without data and `metadata.notModified` is `true`.
+   */
+  ifNoneMatch?: string;
+
+  /**
+   * Only download the file if it was uploaded after this time. Otherwise,
+   * the stream ends without data and `metadata.notModified` is `true`.
+   */
+  ifModifiedSince?: Date | string;
+
+  /**
+   * Check the data against the file's SHA1 as it is downloaded, and emit a
+   * {@linkcode BackblazeLibraryError.ChecksumMismatch} at the end if it differs.
+   * Defaults to `true`. Ranges are never checked, since B2 only knows the
+   * SHA1 of the whole file.
+   */
+  verify?: boolean;
+
+  /** The key of a file encrypted with SSE-C, which is required to download it. */
+  serverSideEncryption?: ServerSideEncryption;
+
+  /** Cancels the download, destroying the stream with a {@linkcode BackblazeLibraryError.Aborted}. */
+  signal?: AbortSignal;
+}
+
+export interface DownloadMetadata {
+  /** The HTTP status of the download: 200, 206 (partial content), or 304 (not modified). */
+  status: number;
+
+  /** `true` when a conditional download was skipped because the file has not changed. */
+  notModified: boolean;
+
+  fileId?: string;
+  fileName?: string;
+  contentType?: string;
+
+  /** The number of bytes in the response, which is less than the file's size for ranges. */
+  contentLength?: number;
+
+  /** For ranged downloads, the `Content-Range` header, such as `"bytes 0-99/1000"`. */
+  contentRange?: string;
+
+  /** The SHA1 of the whole file, or "none" for large files. */
+  contentSha1?: string;
+
+  /** The custom information that was uploaded with the file, from its `X-Bz-Info-*` headers. */
+  fileInfo: Record<string, string>;
+
+  /** When the file was uploaded, in milliseconds since midnight, January 1, 1970 UTC. */
+  uploadTimestamp?: number;
+}
+
+/** @internal */
+export function downloadHeaders({
+  start,
+  end,
+  ifNoneMatch,
+  ifModifiedSince,
+  serverSideEncryption,
+}: DownloadOptions): Record<string, string> {
+  const headers = encryptionHeaders(serverSideEncryption, true);
+
+  if (typeof start !== "undefined" || typeof end !== "undefined") {
+    if (typeof end !== "undefined" && end < (start || 0))
+      throw new BackblazeLibraryError.BadUsage(
+        "The end of a range must not be before its start."
+      );
+    headers["Range"] = `bytes=${start || 0}-${
+      typeof end === "undefined" ? "" : end
+    }`;
+  }
+
+  if (typeof ifNoneMatch !== "undefined")
+    headers["If-None-Match"] = ifNoneMatch;
+
+  if (typeof ifModifiedSince !== "undefined")
+    headers["If-Modified-Since"] =
+      ifModifiedSince instanceof Date
+        ? ifModifiedSince.toUTCString()
+        : ifModifiedSince;
+
+  return headers;
+}
+
+/**
+ * The SHA1 of the whole file, if B2 knows it: large files only have one if
+ * the uploader set `large_file_sha1` in the file info.
+ *
+ * @internal
+ */
+export function wholeFileSha1(
+  contentSha1: string | null | undefined,
+  largeFileSha1: string | undefined
+): string | undefined {
+  if (contentSha1 && contentSha1 !== "none")
+    return contentSha1.replace(/^unverified:/, "");
+  return largeFileSha1;
+}
+
+/** @internal */
+export function parseDownloadMetadata(res: Response): DownloadMetadata {
+  const header = (name: string) => res.headers.get(name) ?? undefined;
+  const number = (name: string) => {
+    const val = header(name);
+    return typeof val === "undefined" ? undefined : parseInt(val, 10);
+  };
+
+  const fileInfo: Record<string, string> = {};
+  res.headers.forEach((val, name) => {
+    if (name.toLowerCase().startsWith("x-bz-info-"))
+      fileInfo[name.slice("x-bz-info-".length)] = B2.uriDecodeString(val);
+  });
+
+  const fileName = header("x-bz-file-name");
+
+  return {
+    status: res.status,
+    notModified: res.status === 304,
+    fileId: header("x-bz-file-id"),
+    fileName:
+      typeof fileName === "undefined" ? undefined : B2.uriDecodeString(fileName),
+    contentType: header("content-type"),
+    contentLength: number("content-length"),
+    contentRange: header("content-range"),
+    contentSha1: header("x-bz-content-sha1"),
+    fileInfo,
+    uploadTimestamp: number("x-bz-upload-timestamp"),
+  };
+}
+
+export default interface FileDownloadStream {
+  on(event: "metadata", listener: (metadata: DownloadMetadata) => void): this;
+  on(event: "progress", listener: (progress: DownloadProgress) => void): this;
+  on(event: string | symbol, listener: (...args: any[]) => void): this;
+}
+
+/**
+ * A download from B2.
+ *
+ * Emits `"metadata"` with {@linkcode DownloadMetadata} once the response
+ * headers have been received, before any data, then `"progress"` with
+ * {@linkcode DownloadProgress} as data is received.
+ */
+export default class FileDownloadStream extends PassThrough {
+  /** Available once the response headers have been received. */
+  metadata?: DownloadMetadata;
+
+  private readonly verify: boolean;
+  private _hash?: Hash;
+  private _expectedSha1?: string;
+
+  /** @internal */
+  constructor({ verify = true }: DownloadOptions = {}) {
+    super();
+    this.verify = verify;
+  }
+
+  /** @internal */
+  _respond(res: Response) {
+    this.metadata = parseDownloadMetadata(res);
+    this.emit("metadata", this.metadata);
+
+    if (this.verify && res.status === 200) {
+      this._expectedSha1 = wholeFileSha1(
+        this.metadata.contentSha1,
+        this.metadata.fileInfo.large_file_sha1
+      );
+      if (typeof this._expectedSha1 !== "undefined")
+        this._hash = createHash("sha1");
+    }
+
+    res.body.on("error", (err) => this.destroy(toAbortedError(err)));
+    res.body.pipe(this);
+  }
+
+  private _bytesTransferred: number = 0;
+
+  _transform(chunk: Buffer, _: BufferEncoding, callback: TransformCallback) {
+    if (this._hash) this._hash.update(chunk);
+
+    this._bytesTransferred += chunk.byteLength;
+    this.emit("progress", {
+      bytesTransferred: this._bytesTransferred,
+      totalBytes: this.metadata && this.metadata.contentLength,
+    });
+
+    callback(null, chunk);
+  }
+
+  _flush(callback: TransformCallback) {
+    if (this._hash) {
+      const digest = this._hash.digest("hex");
+      if (digest !== this._expectedSha1)
+        return callback(
+          new BackblazeLibraryError.ChecksumMismatch(
+            `The SHA1 of the data downloaded, ${digest}, does not match ${this._expectedSha1}.`
+          )
+        );
+    }
+    callback();
+  }
+}
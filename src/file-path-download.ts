@@ -0,0 +1,144 @@
+import { promises as fs, createReadStream, createWriteStream } from "fs";
+import { createHash } from "crypto";
+import { pipeline } from "stream";
+import { promisify } from "util";
+import File, { FileData } from "./file";
+import { BackblazeLibraryError } from "./errors";
+import { AbortSignal } from "./abort";
+import { ServerSideEncryption } from "./encryption";
+import { wholeFileSha1 } from "./file-download-stream";
+
+const pipelineAsync = promisify(pipeline);
+
+export interface DownloadToOptions {
+  /**
+   * Continue from a partial download left by a previous attempt, rather than
+   * starting over. Defaults to `true`.
+   *
+   * Only a partial download of the same file version is continued, and only
+   * when B2 has the whole file's SHA1: large files uploaded without a
+   * `large_file_sha1` are always downloaded from the start.
+   */
+  resume?: boolean;
+
+  /**
+   * Check the downloaded file against its SHA1 before moving it into place.
+   * Defaults to `true`.
+   */
+  verify?: boolean;
+
+  /** The key of a file encrypted with SSE-C, which is required to download it. */
+  serverSideEncryption?: ServerSideEncryption;
+
+  /** Cancels the download. The partial download is kept, to be resumed. */
+  signal?: AbortSignal;
+}
+
+function hashFile(localPath: string): Promise<string> {
+  return new Promise((res, rej) => {
+    const hash = createHash("sha1");
+    createReadStream(localPath)
+      .on("error", rej)
+      .on("data", (chunk) => hash.update(chunk))
+      .on("end", () => res(hash.digest("hex")));
+  });
+}
+
+async function sizeOf(localPath: string): Promise<number> {
+  try {
+    return (await fs.stat(localPath)).size;
+  } catch (err) {
+    if (err.code === "ENOENT") return 0;
+    throw err;
+  }
+}
+
+/** The file id recorded beside a partial download, if any. */
+async function partialVersion(versionPath: string): Promise<string | undefined> {
+  try {
+    return await fs.readFile(versionPath, "utf-8");
+  } catch (err) {
+    if (err.code === "ENOENT") return;
+    throw err;
+  }
+}
+
+/**
+ * Downloads a file to `<localPath>.b2-partial`, then renames it to `localPath`
+ * once it is complete and verified. The id of the version being downloaded is
+ * kept in `<localPath>.b2-partial.id`, so that only the same version is
+ * resumed.
+ *
+ * @internal
+ */
+export default async function downloadToPath(
+  file: File,
+  localPath: string,
+  {
+    resume = true,
+    verify = true,
+    serverSideEncryption,
+    signal,
+  }: DownloadToOptions
+): Promise<FileData> {
+  // Download the version which was stat'd, even if a newer one is uploaded.
+  const fileData = await file.stat();
+  const version = file["_bucket"].file(fileData);
+
+  const partialPath = localPath + ".b2-partial";
+  const versionPath = partialPath + ".id";
+
+  const largeFileSha1 = fileData.fileInfo.large_file_sha1;
+  const wholeSha1 = wholeFileSha1(
+    fileData.contentSha1,
+    typeof largeFileSha1 === "string" ? largeFileSha1 : undefined
+  );
+
+  // Only a partial file of this version is resumed from, and only when the
+  // whole file can be checked once it is complete. It holds the bytes B2
+  // stores, which downloads don't decompress, so its size is the offset.
+  let start =
+    resume &&
+    typeof wholeSha1 !== "undefined" &&
+    (await partialVersion(versionPath)) === fileData.fileId
+      ? await sizeOf(partialPath)
+      : 0;
+  if (start > fileData.contentLength) start = 0;
+  if (start === 0) await fs.writeFile(versionPath, fileData.fileId!);
+
+  if (start < fileData.contentLength) {
+    await pipelineAsync(
+      version.createReadStream({
+        start: start > 0 ? start : undefined,
+        // The whole file is verified below, including any resumed part.
+        verify: false,
+        serverSideEncryption,
+        signal,
+      }),
+      createWriteStream(partialPath, { flags: start > 0 ? "a" : "w" })
+    );
+  } else if (fileData.contentLength === 0) {
+    await fs.writeFile(partialPath, "");
+  }
+
+  const sha1 = verify ? wholeSha1 : undefined;
+  if (typeof sha1 !== "undefined" && (await hashFile(partialPath)) !== sha1) {
+    // The partial download can't be trusted, so start over next time.
+    await fs.unlink(partialPath);
+    await fs.unlink(versionPath);
+    throw new BackblazeLibraryError.ChecksumMismatch(
+      `The SHA1 of "${fileData.fileName}" as downloaded does not match ${sha1}.`
+    );
+  }
+
+  await fs.rename(partialPath, localPath);
+  await fs.unlink(versionPath);
+
+  const lastModified = Number(fileData.fileInfo.src_last_modified_millis);
+  if (Number.isFinite(lastModified) && lastModified > 0) {
+    const mtime = new Date(lastModified);
+    await fs.utimes(localPath, mtime, mtime);
+  }
+
+  return fileData;
+}
@@ -0,0 +1,137 @@
+import { createReadStream } from "fs";
+import { createHash } from "crypto";
+import uploadPart, { MultipartUploadUrl } from "./api-operations/upload-part";
+import File, { FileData, FileUploadOptions, PartData } from "./file";
+import { BackblazeLibraryError } from "./errors";
+import { encryptionHeaders } from "./encryption";
+import { retryOverrides } from "./retry-policy";
+import { maximumPartCount } from "./file-sizes";
+
+function hashRange(
+  localPath: string,
+  start: number,
+  end: number
+): Promise<string> {
+  return new Promise((res, rej) => {
+    const hash = createHash("sha1");
+    createReadStream(localPath, { start, end })
+      .on("error", rej)
+      .on("data", (chunk) => hash.update(chunk))
+      .on("end", () => res(hash.digest("hex")));
+  });
+}
+
+/**
+ * Uploads a local file as a large file. Each part is read from its offset in
+ * the file, once to hash it and again for each attempt to upload it, so
+ * parts are never held in memory.
+ *
+ * @internal
+ */
+export default async function uploadLargeFileFromPath(
+  file: File,
+  localPath: string,
+  size: number,
+  options: FileUploadOptions
+): Promise<FileData> {
+  const { concurrency = 1, signal, resumeFileId } = options;
+  if (!Number.isInteger(concurrency) || concurrency < 1)
+    throw new BackblazeLibraryError.BadUsage(
+      "Upload concurrency must be a whole number of at least 1."
+    );
+
+  const b2 = file.b2;
+  const partSize = Math.max(b2.partSize, Math.ceil(size / maximumPartCount));
+  const partCount = Math.max(1, Math.ceil(size / partSize));
+
+  await file._startMultipartUpload(options, resumeFileId);
+  const fileId = await file.getFileId();
+
+  const existingParts = new Map<number, PartData>();
+  if (typeof resumeFileId !== "undefined") {
+    for await (const part of file.listParts({ batchSize: 1000, signal })) {
+      existingParts.set(part.partNumber, part);
+    }
+  }
+
+  const policy = b2.retryPolicy.with(retryOverrides(options));
+  const uploadUrls: MultipartUploadUrl[] = [];
+  const getUploadUrl = async (): Promise<MultipartUploadUrl> => {
+    return await b2.call("b2_get_upload_part_url", { fileId }, { signal });
+  };
+
+  const partSha1Array: string[] = new Array(partCount);
+  let partsCompleted = 0;
+  let bytesTransferred = 0;
+  const partAcknowledged = (partNumber: number, bytes: number) => {
+    partsCompleted++;
+    bytesTransferred += bytes;
+    if (options.onProgress)
+      options.onProgress({
+        bytesTransferred,
+        totalBytes: size,
+        partsCompleted,
+        partsTotal: partCount,
+        partNumber,
+      });
+  };
+
+  let nextPart = 0;
+  const uploadParts = async () => {
+    while (nextPart < partCount) {
+      const i = nextPart++;
+      const start = i * partSize;
+      const end = Math.min(start + partSize, size) - 1;
+      const byteLength = end - start + 1;
+
+      const sha1 = await hashRange(localPath, start, end);
+
+      const existing = existingParts.get(i + 1);
+      if (
+        typeof existing !== "undefined" &&
+        existing.contentSha1 === sha1 &&
+        existing.contentLength === byteLength
+      ) {
+        partSha1Array[i] = sha1;
+        partAcknowledged(i + 1, byteLength);
+        continue;
+      }
+
+      const { data, url } = await uploadPart(
+        b2.fetch,
+        i + 1,
+        {
+          byteLength,
+          read: () => createReadStream(localPath, { start, end }),
+        },
+        sha1,
+        uploadUrls.pop(),
+        getUploadUrl,
+        policy,
+        signal,
+        encryptionHeaders(options.serverSideEncryption, true)
+      );
+      uploadUrls.push(url);
+      partSha1Array[i] = data.contentSha1;
+      partAcknowledged(i + 1, byteLength);
+    }
+  };
+
+  try {
+    await Promise.all(
+      Array.from({ length: Math.min(concurrency, partCount) }, uploadParts)
+    );
+
+    return await b2.call(
+      "b2_finish_large_file",
+      { fileId, partSha1Array },
+      { signal }
+    );
+  } catch (err) {
+    nextPart = partCount;
+    // Keep a resumed upload around, so that it can be resumed again.
+    if (typeof resumeFileId === "undefined")
+      await b2.call("b2_cancel_large_file", { fileId }).catch(() => {});
+    throw err;
+  }
+}
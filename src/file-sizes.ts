@@ -1,3 +1,6 @@
 export const KB = 1000;
 export const MB = 1000 * KB;
-export const GB = 1000 * MB;
\ No newline at end of file
+export const GB = 1000 * MB;
+
+/** B2 allows at most this many parts in a large file. */
+export const maximumPartCount = 10000;
\ No newline at end of file
@@ -2,9 +2,13 @@ import { createHash, Hash } from "crypto";
 import { Writable } from "stream";
 import uploadPart, { MultipartUploadUrl } from "./api-operations/upload-part";
 import B2 from "./b2";
-import File, { FileData, FileUploadOptions } from "./file";
+import File, { FileData, FileUploadOptions, PartData } from "./file";
 import { Buffer } from "buffer";
 import { BackblazeLibraryError } from "./errors";
+import { encryptionHeaders } from "./encryption";
+import { UploadProgress } from "./progress";
+import { retryOverrides } from "./retry-policy";
+import { createAbortController } from "./abort";
 
 class PendingPart extends Writable {
   private readonly chunks: Buffer[] = [];
@@ -22,8 +26,14 @@ class PendingPart extends Writable {
 
   digest!: string;
 
+  /** The part as one Buffer, which replaces its chunks so it isn't held twice. */
   concat(): Buffer {
-    return Buffer.concat(this.chunks);
+    if (this.chunks.length !== 1) {
+      const whole = Buffer.concat(this.chunks);
+      this.chunks.length = 0;
+      this.chunks.push(whole);
+    }
+    return this.chunks[0];
   }
 
   _final(cb: (err?: Error) => void) {
@@ -35,6 +45,17 @@ class PendingPart extends Writable {
 
 
 /** @internal */
+export default interface FileUploadStream {
+  on(event: "progress", listener: (progress: UploadProgress) => void): this;
+  on(event: string | symbol, listener: (...args: any[]) => void): this;
+}
+
+/**
+ * Emits `"progress"` with {@linkcode UploadProgress} each time B2
+ * acknowledges a part.
+ *
+ * @internal
+ */
 export default class FileUploadStream extends Writable {
   static maximumPartSize?: number
 
@@ -47,15 +68,47 @@ export default class FileUploadStream extends Writable {
 
   readonly options: FileUploadOptions;
 
+  /** The most parts which may be uploading at once. */
+  readonly concurrency: number;
+
   constructor(file: File, options: FileUploadOptions = {}) {
     super({});
 
     this.file = file;
     this.options = options;
 
+    const { concurrency = 1 } = options;
+    if (!Number.isInteger(concurrency) || concurrency < 1)
+      throw new BackblazeLibraryError.BadUsage(
+        "Upload concurrency must be a whole number of at least 1."
+      );
+    this.concurrency = concurrency;
+
     this.b2 = file.b2;
 
     this.pendingPart = new PendingPart();
+
+    if (options.onProgress) this.on("progress", options.onProgress);
+
+    this._destroyed = new Promise<never>((_, rej) => {
+      this._rejectPending = rej;
+    });
+    this._destroyed.catch(() => {});
+
+    const { signal } = options;
+    if (signal) {
+      const onAbort = () =>
+        this.destroy(
+          new BackblazeLibraryError.Aborted("The upload was aborted.")
+        );
+
+      if (signal.aborted) {
+        process.nextTick(onAbort);
+      } else {
+        signal.addEventListener("abort", onAbort);
+        this.once("close", () => signal.removeEventListener("abort", onAbort));
+      }
+    }
   }
 
   __process(chunk: Buffer, callback: (error?: Error | null) => void) {
@@ -69,7 +122,10 @@ export default class FileUploadStream extends Writable {
       
       part.on("error", callback);
       part.end(() => {
-        this.uploadPart(part).then(
+        this.uploadPart(part);
+        // Don't buffer the next part until there is room for it to upload, so
+        // that at most `concurrency` parts are uploading or buffering.
+        this._waitForCapacity().then(
           () => {
             this.__process(chunk.slice(spaceInPart), callback);
           },
@@ -98,41 +154,153 @@ export default class FileUploadStream extends Writable {
     );
   }
 
+  /**
+   * Aborts parts which are still uploading, and cancels the large file on B2
+   * unless it was finished, or continues an upload from before
+   * (see {@linkcode FileUploadOptions.resumeFileId}).
+   */
+  _destroy(err: Error | null, cb: (error?: Error | null) => void) {
+    this._rejectPending(
+      err || new BackblazeLibraryError.Aborted("The upload was destroyed.")
+    );
+    if (this._partsController) this._partsController.abort();
+    this.uploadUrls.length = 0;
+
+    if (
+      typeof this._multipartStarted === "undefined" ||
+      this._finished ||
+      typeof this.options.resumeFileId !== "undefined"
+    )
+      return cb(err);
+
+    this._multipartStarted
+      .then(() => this._cancelMultipart())
+      .then(
+        () => cb(err),
+        () => cb(err)
+      );
+  }
+
+  /** Aborts the requests of parts which are uploading, once the stream is destroyed. */
+  private readonly _partsController = createAbortController();
+
+  /** Sends the requests for parts, falling back to the upload's own `signal`. */
+  private get _partsSignal() {
+    return this._partsController
+      ? this._partsController.signal
+      : this.options.signal;
+  }
+
+  /** Settled once the stream is destroyed, to stop waiting on parts. */
+  private readonly _destroyed: Promise<never>;
+  private _rejectPending!: (err: Error) => void;
+
+  private _finished: boolean = false;
+
+  private readonly _progress: UploadProgress = {
+    bytesTransferred: 0,
+    partsCompleted: 0,
+    partNumber: 0,
+  };
+
+  private _partAcknowledged(partNumber: number, bytes: number) {
+    this._progress.bytesTransferred += bytes;
+    this._progress.partsCompleted++;
+    this._progress.partNumber = partNumber;
+    this.emit("progress", { ...this._progress });
+  }
+
   private readonly _uploadDigestPromises: Promise<string>[] = [];
 
   private readonly uploadUrls: MultipartUploadUrl[] = [];
 
+  /** 
+   * Parts which are uploading. Parts which fail are never removed, so that
+   * the failure is seen by anything waiting for capacity.
+   */
+  private readonly _partsInFlight = new Set<Promise<void>>();
+
+  private _multipartStarted?: Promise<void>;
+
+  /** When resuming an upload, the parts which were already uploaded, by part number. */
+  private _existingParts?: Promise<Map<number, PartData>>;
+
+  private async _listExistingParts(): Promise<Map<number, PartData>> {
+    const parts = new Map<number, PartData>();
+    for await (const part of this.file.listParts({ batchSize: 1000 })) {
+      parts.set(part.partNumber, part);
+    }
+    return parts;
+  }
+
+  private async _waitForCapacity(): Promise<void> {
+    while (this._partsInFlight.size >= this.concurrency) {
+      await Promise.race(this._partsInFlight);
+    }
+  }
 
-  private uploadPart(part: PendingPart) {
-    const uploadUrl = this.uploadUrls.pop();
+  private uploadPart(part: PendingPart): Promise<void> {
     const partNumber = this._uploadDigestPromises.length + 1;
 
-    const promise = ((this._isMultipart)
-      ? Promise.resolve()
-      : this.file._startMultipartUpload(this.options)
-    ).then(() =>
-      uploadPart(
+    if (typeof this._multipartStarted === "undefined") {
+      const { resumeFileId } = this.options;
+
+      this._multipartStarted = this.file._startMultipartUpload(
+        this.options,
+        resumeFileId
+      );
+
+      this._existingParts = this._multipartStarted.then(() =>
+        typeof resumeFileId === "undefined"
+          ? new Map()
+          : this._listExistingParts()
+      );
+    }
+
+    this._isMultipart = true;
+
+    const digest = this._existingParts!.then((existingParts) => {
+      const existing = existingParts.get(partNumber);
+      if (
+        typeof existing !== "undefined" &&
+        existing.contentSha1 === part.digest &&
+        existing.contentLength === part.bytes
+      )
+        return existing.contentSha1;
+
+      return uploadPart(
+        this.b2.fetch,
         partNumber,
         part.concat(),
         part.digest,
-        uploadUrl,
+        this.uploadUrls.pop(),
         () => this._getMultipartUploadUrl(),
-        this.options.maxRetries || 5,
-        this.options.backoff || 150
-      )
-    );
-
-    this._isMultipart = true;
+        this.b2.retryPolicy.with(retryOverrides(this.options)),
+        this._partsSignal,
+        encryptionHeaders(this.options.serverSideEncryption, true)
+      ).then(({ data, url }) => {
+        this.uploadUrls.push(url);
+        return data.contentSha1;
+      });
+    });
 
-    this._uploadDigestPromises.push(
-      promise.then((data) => data.data.contentSha1)
-    );
+    const settled = Promise.race([
+      digest.then((sha1) => {
+        this._partAcknowledged(partNumber, part.bytes);
+        return sha1;
+      }),
+      this._destroyed,
+    ]);
+    this._uploadDigestPromises.push(settled);
 
-    promise.then(({ url }) => {
-      this.uploadUrls.push(url);
+    const inFlight: Promise<void> = settled.then(() => {
+      this._partsInFlight.delete(inFlight);
     });
+    // Failures are handled by whoever waits on the part next.
+    inFlight.catch(() => {});
+    this._partsInFlight.add(inFlight);
 
-    return promise;
+    return inFlight;
   }
 
   private async _uploadAsSinglePart(): Promise<FileData> {
@@ -144,12 +312,15 @@ export default class FileUploadStream extends Writable {
     return this.file.uploadSinglePart(this.pendingPart.concat(), {
       ...this.options,
       contentLength: this.pendingPart.bytes,
-      sha1: this.pendingPart.digest
+      sha1: this.pendingPart.digest,
+      onProgress: (progress) => this.emit("progress", progress),
     });
   }
 
   private async _finishUpload(): Promise<void> {
-    this.file["_fileData"] = await (this._uploadDigestPromises.length === 0
+    // A resumed upload must finish the large file it continues, however short.
+    this.file["_fileData"] = await (this._uploadDigestPromises.length === 0 &&
+      typeof this.options.resumeFileId === "undefined"
       ? this._uploadAsSinglePart()
       : this._finishMultipart());
   }
@@ -159,26 +330,37 @@ export default class FileUploadStream extends Writable {
       this.pendingPart.on("error", rej);
       this.pendingPart.end(res);
     })
+    // Now that the last part has started, the totals are known.
+    this._progress.partsTotal = this._uploadDigestPromises.length + 1;
+    this._progress.totalBytes =
+      (this._uploadDigestPromises.length) * this.b2.partSize +
+      this.pendingPart.bytes;
     await this.uploadPart(this.pendingPart);
 
-    const res = await this.file.b2.callApi("b2_finish_large_file", {
-      method: "POST",
-      body: JSON.stringify({
+    const fileData = await this.file.b2.call(
+      "b2_finish_large_file",
+      {
         fileId: await this.file.getFileId(),
         partSha1Array: await Promise.all(this._uploadDigestPromises),
-      }),
-    });
+      },
+      { signal: this.options.signal }
+    );
+    this._finished = true;
+    return fileData;
+  }
 
-    return await res.json();
+  private async _cancelMultipart(): Promise<void> {
+    await this.file.b2.call("b2_cancel_large_file", {
+      fileId: await this.file.getFileId(),
+    });
   }
 
   /** @private */
   private async _getMultipartUploadUrl(): Promise<MultipartUploadUrl> {
-    const res = await this.file.b2.callApi("b2_get_upload_part_url", {
-      method: "POST",
-      body: JSON.stringify({ fileId: await this.file.getFileId() }),
-    });
-
-    return await res.json();
+    return await this.file.b2.call(
+      "b2_get_upload_part_url",
+      { fileId: await this.file.getFileId() },
+      { signal: this._partsSignal }
+    );
   }
 }
@@ -1,7 +1,42 @@
-import { PassThrough } from 'stream';
 import Bucket from "./bucket";
-import { BackblazeLibraryError } from "./errors";
+import BackblazeServerError, { BackblazeLibraryError } from "./errors";
+import { AbortSignal } from "./abort";
+import {
+  FileEncryptionSettings,
+  ServerSideEncryption,
+  encryptionParameter,
+  requireCustomerKey,
+} from "./encryption";
+import {
+  FileRetention,
+  FileRetentionSetting,
+  LegalHoldSetting,
+  isDeletionLocked,
+  retentionParameter,
+} from "./object-lock";
+import { UploadProgress } from "./progress";
 import FileUploadStream from "./file-upload-stream";
+import { DownloadAuthorizationOptions } from "./download-authorization";
+import {
+  CopyOptions,
+  MetadataDirective,
+  copyLargeFile,
+  maximumSinglePartCopySize,
+  rangeHeader,
+  validateCopyOptions,
+  validateCopyRange,
+} from "./file-copy";
+import downloadToPath, { DownloadToOptions } from "./file-path-download";
+import FileDownloadStream, {
+  DownloadOptions,
+  downloadHeaders,
+  wholeFileSha1,
+} from "./file-download-stream";
+import ParallelDownloadStream, {
+  FetchRange,
+  ParallelDownloadOptions,
+} from "./parallel-download-stream";
+import { RetryOptions, retryOverrides } from "./retry-policy";
 
 /**
  * Where sensible, Backblaze recommends these values to allow different B2 clients
@@ -170,6 +205,49 @@ export interface FileData {
    * Always 0 when the action is "folder".
    */
   uploadTimestamp: string;
+  /** How the file is encrypted at rest, when it is. */
+  serverSideEncryption?: FileEncryptionSettings;
+
+  /** The Object Lock retention of the file version, in buckets with Object Lock enabled. */
+  fileRetention?: FileRetentionSetting;
+
+  /** Whether the file version is under legal hold, in buckets with Object Lock enabled. */
+  legalHold?: LegalHoldSetting;
+}
+
+/** A part of a large file which has been uploaded. */
+export interface PartData {
+  /** The file that the part belongs to. */
+  fileId: string;
+
+  /** Parts are numbered from 1. */
+  partNumber: number;
+
+  /** The number of bytes stored in the part. */
+  contentLength: number;
+
+  /** The SHA1 of the bytes stored in the part, as a 40-digit hex string. */
+  contentSha1: string;
+
+  /** The MD5 of the bytes stored in the part, when known. */
+  contentMd5?: string;
+
+  /** When the part was uploaded, in milliseconds since midnight, January 1, 1970 UTC. */
+  uploadTimestamp: number;
+}
+
+export interface ListPartsOptions {
+  /** The first part to return. Defaults to 1. */
+  startPartNumber?: number;
+
+  /**
+   * The maximum number of parts to return from each call to `b2_list_parts`.
+   *
+   * The default value is 100, and the maximum is 1000.
+   */
+  batchSize?: number;
+  /** Cancels the listing. */
+  signal?: AbortSignal;
 }
 
 export interface FileUploadOptions {
@@ -188,12 +266,64 @@ export interface FileUploadOptions {
   contentType?: string;
   fileInfo?: FileInfo;
 
+  /** Overrides the client's retry policy for this upload. */
+  retry?: RetryOptions;
+
+  /** @deprecated Use `retry.maxAttempts`, which counts the first attempt too. */
   maxRetries?: number;
+  /** @deprecated Use `retry.initialDelay`. */
   backoff?: number;
+
+  /**
+   * For multi-part uploads, the most parts to upload at once, each over its own
+   * connection. Defaults to 1.
+   *
+   * Each part is held in memory until it is uploaded. The next part isn't
+   * buffered until fewer than `concurrency` are uploading, so up to
+   * `concurrency * b2.partSize` bytes are held, besides the chunk being written.
+   */
+  concurrency?: number;
+  /**
+   * Continue an unfinished multi-part upload, such as one found with
+   * {@linkcode Bucket.listUnfinishedLargeFiles}, instead of starting a new one.
+   *
+   * The whole stream must be written again, using the same `b2.partSize` as
+   * before. Parts which were already uploaded with the same SHA1 are skipped.
+   */
+  resumeFileId?: string;
+
+  /**
+   * Encrypts the file at rest, either with a key managed by B2 (SSE-B2) or
+   * your own key (SSE-C). SSE-C files can only be downloaded or copied with the same key.
+   */
+  serverSideEncryption?: ServerSideEncryption;
+
+  /** Protects the file from being deleted or changed until a time. Requires Object Lock on the bucket. */
+  fileRetention?: FileRetention;
+
+  /** Protects the file from being deleted or changed until the hold is removed. */
+  legalHold?: boolean;
+
+  /**
+   * Called each time B2 acknowledges a part of the upload, or the whole of a
+   * single-part upload. Streams also emit this as `"progress"`.
+   */
+  onProgress?: (progress: UploadProgress) => void;
+  /**
+   * Cancels the upload. An unfinished multi-part upload is canceled on B2,
+   * and the stream is destroyed with a {@linkcode BackblazeLibraryError.Aborted}.
+   */
+  signal?: AbortSignal;
 }
 
 type MinimumFileData = Partial<FileData> & { fileName: string };
 
+/** The identifiers of a file version which has been deleted. */
+export interface DeletedFileData {
+  fileId: string;
+  fileName: string;
+}
+
 export default class File {
   private _bucket: Bucket;
   private _fileData: MinimumFileData;
@@ -215,11 +345,14 @@ export default class File {
    * When getting a file's ids by its `fileName`, this is a Class C transaction
    * See https://www.backblaze.com/b2/cloud-storage-pricing.html
    */
-  async getFileId() {
+  async getFileId(): Promise<string> {
     let { fileId } = this._fileData;
-    if (typeof fileId !== "undefined" && fileId !== null) return fileId;
+    if (typeof fileId === "undefined" || fileId === null)
+      fileId = (await this.stat()).fileId;
 
-    return (await this.stat()).fileId;
+    if (fileId === null)
+      throw new BackblazeLibraryError.BadUsage("Folders do not have a fileId.");
+    return fileId;
   }
 
   getBucketId() {
@@ -254,55 +387,422 @@ export default class File {
   }
 
   private async _statById(): Promise<FileData> {
-    const res = await this.b2.callApi("b2_get_file_info", {
-      method: "POST",
-      body: JSON.stringify({
-        fileId: await this.getFileId()
-      })
+    return this._fileData = await this.b2.call("b2_get_file_info", {
+      fileId: await this.getFileId()
     });
-
-    return this._fileData = await res.json();
   }
 
   private async _statByName(): Promise<FileData> {
-    const {files: [fileData]} = await this._bucket._getFileDataBatch({ batchSize: 1, startFileName: this._fileData.fileName! });
+    const fileName = this._fileData.fileName!;
+    // Listed by prefix too, so that keys restricted to a name prefix may.
+    const {files: [fileData]} = await this._bucket._getFileDataBatch({ batchSize: 1, startFileName: fileName, prefix: fileName });
     if(typeof fileData === "undefined" || fileData.fileName !== this._fileData.fileName!) 
       throw new BackblazeLibraryError.FileNotFound("The file was not found.");
     
     return this._fileData = fileData;
   }
 
+  /**
+   * Deletes this version of the file.
+   *
+   * If the version deleted is the latest version, and there are older versions,
+   * then the most recent older version will become the current version, and be the
+   * one that you'll get when downloading by name.
+   *
+   * Afterwards, this instance refers to the file by name only.
+   *
+   * @param options.bypassGovernance Delete the version despite a governance mode
+   * retention. Requires the `bypassGovernance` capability.
+   * @throws {@linkcode BackblazeServerError.FileLocked} When the version is under retention or legal hold.
+   * @throws {@linkcode BackblazeServerError.AccessDenied} When B2 denies it for another reason, such as the key.
+   */
+  async deleteVersion(
+    options: { bypassGovernance?: boolean } = {}
+  ): Promise<DeletedFileData> {
+    const [fileName, fileId] = await Promise.all([
+      this.getFileName(),
+      this.getFileId(),
+    ]);
+
+    let deleted: DeletedFileData;
+    try {
+      deleted = await this.b2.call("b2_delete_file_version", {
+        ...options,
+        fileName,
+        fileId,
+      });
+    } catch (err) {
+      if (
+        err instanceof BackblazeServerError.AccessDenied &&
+        (await this._isDeletionLocked(fileId, options.bypassGovernance))
+      )
+        throw new BackblazeServerError.FileLocked(err.apiData, {
+          context: err.context,
+        });
+      throw err;
+    }
+
+    this._fileData = { fileName: deleted.fileName };
+    return deleted;
+  }
+
+  /**
+   * Whether B2 denied deleting the version for its legal hold or retention,
+   * rather than for the key, such as one restricted to another bucket.
+   */
+  private async _isDeletionLocked(
+    fileId: string,
+    bypassGovernance?: boolean
+  ): Promise<boolean> {
+    try {
+      const fileData = await this.b2.call("b2_get_file_info", { fileId });
+      return isDeletionLocked(fileData, bypassGovernance);
+    } catch (err) {
+      // Such as when the key may not read the file either.
+      return false;
+    }
+  }
+
+  /**
+   * Sets the Object Lock retention of this file version.
+   *
+   * ```js
+   * await file.setRetention({ mode: "compliance", retainUntil: new Date("2030-01-01") });
+   * ```
+   *
+   * @param options.bypassGovernance Shorten or remove a governance mode
+   * retention. Requires the `bypassGovernance` capability.
+   */
+  async setRetention(
+    retention: FileRetention,
+    options: { bypassGovernance?: boolean } = {}
+  ): Promise<FileRetentionSetting> {
+    const [fileName, fileId] = await Promise.all([
+      this.getFileName(),
+      this.getFileId(),
+    ]);
+
+    const { fileRetention } = await this.b2.call("b2_update_file_retention", {
+      ...options,
+      fileName,
+      fileId,
+      fileRetention: retentionParameter(retention),
+    });
+    return (this._fileData.fileRetention = {
+      isClientAuthorizedToRead: true,
+      value: fileRetention,
+    });
+  }
+
+  /** Places this file version under legal hold, or removes the hold. */
+  async setLegalHold(on: boolean): Promise<LegalHoldSetting> {
+    const [fileName, fileId] = await Promise.all([
+      this.getFileName(),
+      this.getFileId(),
+    ]);
+
+    const { legalHold } = await this.b2.call("b2_update_file_legal_hold", {
+      fileName,
+      fileId,
+      legalHold: on ? "on" : "off",
+    });
+    return (this._fileData.legalHold = {
+      isClientAuthorizedToRead: true,
+      value: legalHold,
+    });
+  }
+
+  /**
+   * Deletes every version of this file, including hide markers.
+   *
+   * Each version deleted is a Class C transaction to list, in addition to the
+   * (free) call to `b2_delete_file_version`.
+   *
+   * @returns the versions which were deleted, from newest to oldest.
+   */
+  async delete(): Promise<DeletedFileData[]> {
+    const fileName = await this.getFileName();
+    const deleted: DeletedFileData[] = [];
+
+    for await (const fileData of this._bucket.listFileVersions({
+      startFileName: fileName,
+      prefix: fileName,
+    })) {
+      if (fileData.fileName !== fileName) break;
+      deleted.push(await new File(this._bucket, fileData).deleteVersion());
+    }
+
+    this._fileData = { fileName };
+    return deleted;
+  }
+
+  /**
+   * Hides this file so that downloading by name will not find it, and it will
+   * not appear in {@linkcode Bucket.files}. Older versions are kept.
+   *
+   * Afterwards, this instance reflects the new hide marker.
+   */
+  async hide(): Promise<FileData> {
+    const [bucketId, fileName] = await Promise.all([
+      this.getBucketId(),
+      this.getFileName(),
+    ]);
+
+    return (this._fileData = await this.b2.call("b2_hide_file", {
+      bucketId,
+      fileName,
+    }));
+  }
+
+  /**
+   * Reveals a hidden file by deleting its newest hide marker.
+   *
+   * Afterwards, this instance reflects the version which became visible.
+   *
+   * @throws {@linkcode BackblazeLibraryError.FileNotFound} When the file has no
+   * uploaded version older than the marker, which is then kept.
+   * @throws {@linkcode BackblazeLibraryError.BadUsage} When the file is not hidden.
+   */
+  async unhide(): Promise<FileData> {
+    const fileName = await this.getFileName();
+
+    const {
+      files: [marker, revealed],
+    } = await this._bucket._getFileVersionsBatch({
+      batchSize: 2,
+      startFileName: fileName,
+      prefix: fileName,
+    });
+
+    if (typeof marker === "undefined" || marker.fileName !== fileName)
+      throw new BackblazeLibraryError.FileNotFound("The file was not found.");
+
+    if (marker.action !== FileAction.hide)
+      throw new BackblazeLibraryError.BadUsage("The file is not hidden.");
+
+    // Checked first, so that the marker is kept when there is nothing to reveal.
+    if (
+      typeof revealed === "undefined" ||
+      revealed.fileName !== fileName ||
+      revealed.action !== FileAction.upload
+    )
+      throw new BackblazeLibraryError.FileNotFound(
+        "There is no older version of the file to reveal."
+      );
+
+    await new File(this._bucket, marker).deleteVersion();
+
+    return (this._fileData = revealed);
+  }
+
+  /**
+   * Copies this version of the file on B2, without downloading it. The
+   * destination may be in another bucket in the same account.
+   *
+   * Files up to 5 GB are copied with a single `b2_copy_file` call. Larger
+   * files are copied as a large file, several parts at a time.
+   *
+   * ```js
+   * const copy = await file.copyTo(archive, "2020/report.pdf");
+   * ```
+   *
+   * @returns The new file.
+   */
+  async copyTo(
+    destinationBucket: Bucket,
+    destinationFileName: string,
+    options: CopyOptions = {}
+  ): Promise<File> {
+    validateCopyOptions(options);
+
+    const {
+      metadataDirective = MetadataDirective.copy,
+      range,
+      concurrency = 4,
+      signal,
+      sourceServerSideEncryption,
+      destinationServerSideEncryption,
+    } = options;
+
+    let source = this._fileData;
+    if (
+      typeof source.fileId !== "string" ||
+      typeof source.contentLength !== "number" ||
+      typeof source.contentType !== "string" ||
+      typeof source.fileInfo === "undefined"
+    )
+      source = await this.stat();
+
+    requireCustomerKey(
+      source.serverSideEncryption,
+      sourceServerSideEncryption,
+      "copy"
+    );
+    validateCopyRange(range, source.contentLength!);
+
+    const start = range ? range.start : 0;
+    const end =
+      range && typeof range.end !== "undefined"
+        ? Math.min(range.end, source.contentLength! - 1)
+        : source.contentLength! - 1;
+    const length = end - start + 1;
+
+    const destinationBucketId = await destinationBucket.getBucketId();
+    const replace = metadataDirective === MetadataDirective.replace;
+
+    let fileData: FileData;
+
+    if (length <= maximumSinglePartCopySize) {
+      fileData = await this.b2.call(
+        "b2_copy_file",
+        {
+          sourceFileId: source.fileId!,
+          destinationBucketId,
+          fileName: destinationFileName,
+          range: range ? rangeHeader(start, end) : undefined,
+          metadataDirective,
+          contentType: replace ? options.contentType : undefined,
+          fileInfo: replace ? options.fileInfo || {} : undefined,
+
+          sourceServerSideEncryption: encryptionParameter(
+            sourceServerSideEncryption
+          ),
+          destinationServerSideEncryption: encryptionParameter(
+            destinationServerSideEncryption
+          ),
+        },
+        { signal }
+      );
+    } else {
+      fileData = await copyLargeFile(
+        this.b2,
+        {
+          fileId: source.fileId!,
+          start,
+          length,
+          serverSideEncryption: sourceServerSideEncryption,
+        },
+        {
+          bucketId: destinationBucketId,
+          fileName: destinationFileName,
+          contentType: replace ? options.contentType! : source.contentType!,
+          fileInfo: replace ? options.fileInfo : source.fileInfo,
+          serverSideEncryption: destinationServerSideEncryption,
+        },
+        concurrency,
+        signal
+      );
+    }
+
+    return new File(destinationBucket, fileData);
+  }
+
+  /**
+   * Copies this version of the file (see {@linkcode copyTo}), then deletes it.
+   *
+   * The whole file is moved, so a `range` can't be given.
+   *
+   * @returns The new file.
+   */
+  async moveTo(
+    destinationBucket: Bucket,
+    destinationFileName: string,
+    options: Omit<CopyOptions, "range"> = {}
+  ): Promise<File> {
+    if (typeof (options as CopyOptions).range !== "undefined")
+      throw new BackblazeLibraryError.BadUsage(
+        "A range can't be moved, as the rest of the file would be deleted."
+      );
+
+    const file = await this.copyTo(
+      destinationBucket,
+      destinationFileName,
+      options
+    );
+    await this.deleteVersion();
+    return file;
+  }
+
+  /**
+   * Creates a URL which anyone can use to download this file from a private
+   * bucket, until it expires.
+   *
+   * ```js
+   * const url = await bucket.file("report.pdf").getSignedUrl({
+   *   expiresIn: 3600,
+   *   contentDisposition: "attachment; filename=report.pdf"
+   * });
+   * ```
+   *
+   * See {@linkcode Bucket.getDownloadAuthorization}, which is used with the
+   * file's name as the prefix.
+   */
+  async getSignedUrl({
+    expiresIn,
+    ...options
+  }: DownloadAuthorizationOptions & {
+    /** How long the URL is valid for, in seconds, up to a week. */
+    expiresIn: number;
+  }): Promise<string> {
+    const fileName = await this.getFileName();
+    const authorization = await this._bucket.getDownloadAuthorization(
+      fileName,
+      expiresIn,
+      options
+    );
+    return authorization.url(fileName);
+  }
+
   /**
    * Download this file from B2.
    * 
    * ```js
    * const file = bucket.file("text.txt");
    * file.createReadStream();
+   *
+   * // download the first kilobyte, if the file changed since yesterday
+   * file.createReadStream({ start: 0, end: 999, ifModifiedSince: yesterday })
+   *   .on("metadata", ({ notModified, contentRange }) => {});
     ```
+   *
+   * Errors, including a failed request and a
+   * {@linkcode BackblazeLibraryError.ChecksumMismatch} when the data does not
+   * match the file's SHA1, are emitted on the stream.
    */
-  createReadStream(): NodeJS.ReadableStream {
-    const stream = new PassThrough();
+  createReadStream(options: DownloadOptions = {}): FileDownloadStream {
+    const stream = new FileDownloadStream(options);
 
     const { fileId, fileName } = this._fileData;
+    requireCustomerKey(
+      this._fileData.serverSideEncryption,
+      options.serverSideEncryption,
+      "download"
+    );
+    const request = {
+      headers: downloadHeaders(options),
+      signal: options.signal,
+    };
 
     if (typeof fileId !== "undefined" && fileId != null) {
       this.b2.callDownloadApi(
         "b2_download_file_by_id?fileId=" + encodeURIComponent(fileId),
-        {}
+        request
       ).then((res) => {
-        res.body.on("error", stream.destroy)
-        res.body.pipe(stream);
+        stream._respond(res);
+      }, (err) => {
+        stream.destroy(err);
       });
     } else if (typeof fileName !== "undefined") {
       Promise.all([this.getBucketName()]).then(([bucketName]) =>
         this.b2.requestFromDownloadFileByName(
           bucketName,
           fileName,
-          {}
+          request
         )
       ).then((res) => {
-        res.body.on("error", stream.destroy)
-        res.body.pipe(stream);
+        stream._respond(res);
+      }, (err) => {
+        stream.destroy(err);
       });
     } else {
       throw new BackblazeLibraryError.BadUsage("To download a file, you must provide either its fileId or fileName.")
@@ -311,6 +811,84 @@ export default class File {
     return stream;
   }
 
+  /**
+   * Download this file from B2 over several connections at once, which can be
+   * much faster for large files.
+   *
+   * The file is stat'd for its length, then downloaded in chunks of `chunkSize`
+   * bytes, `connections` at a time. Chunks are retried individually, and are
+   * emitted in order.
+   *
+   * ```js
+   * bucket.file("dump.tar")
+   *   .createParallelReadStream({ connections: 8 })
+   *   .pipe(fs.createWriteStream("dump.tar"));
+   * ```
+   */
+  createParallelReadStream(
+    options: ParallelDownloadOptions = {}
+  ): ParallelDownloadStream {
+    const stream = new ParallelDownloadStream(options);
+    const { verify = true, serverSideEncryption } = options;
+
+    this.stat().then((fileData) => {
+      requireCustomerKey(
+        fileData.serverSideEncryption,
+        serverSideEncryption,
+        "download"
+      );
+
+      const { fileId, contentLength, fileInfo } = fileData;
+      const fetchRange: FetchRange = async (start, end, signal) => {
+        const res = await this.b2.callDownloadApi(
+          "b2_download_file_by_id?fileId=" + encodeURIComponent(fileId!),
+          {
+            headers: downloadHeaders({ start, end, serverSideEncryption }),
+            signal,
+          },
+          // Each chunk is retried as a whole, including reading its body.
+          { retry: { maxAttempts: 1 } }
+        );
+        return res.buffer();
+      };
+
+      stream._start(
+        fetchRange,
+        contentLength,
+        verify
+          ? wholeFileSha1(fileData.contentSha1, fileInfo.large_file_sha1)
+          : undefined,
+        this.b2.retryPolicy.with(retryOverrides(options))
+      );
+    }).catch((err) => {
+      stream.destroy(err);
+    });
+
+    return stream;
+  }
+
+  /**
+   * Download this file to the filesystem.
+   *
+   * The file is downloaded to `<localPath>.b2-partial`, which is resumed from
+   * if a previous attempt at the same version failed. Once it is complete, its
+   * SHA1 is checked, when B2 has one for the whole file, and it is moved to
+   * `localPath`, with its mtime set from `src_last_modified_millis`.
+   *
+   * ```js
+   * await bucket.file("models/large.bin").downloadTo("./large.bin");
+   * ```
+   *
+   * @throws {@linkcode BackblazeLibraryError.ChecksumMismatch} When the downloaded file is corrupt.
+   * The partial download is removed.
+   */
+  async downloadTo(
+    localPath: string,
+    options: DownloadToOptions = {}
+  ): Promise<FileData> {
+    return downloadToPath(this, localPath, options);
+  }
+
   /**
    * Upload to this file on B2.
    * 
@@ -334,13 +912,65 @@ export default class File {
    * })
    * res.body.pipe(stream);
    * ```
+   *
+   * Set `concurrency` to upload several parts at once:
+   *
+   * ```js
+   * dump.pipe(file.createWriteStream({ concurrency: 4 }));
+   * ```
    */
-  createWriteStream(): FileUploadStream {
-    return new FileUploadStream(this);
+  createWriteStream(options: FileUploadOptions = {}): FileUploadStream {
+    return new FileUploadStream(this, options);
   }
 
-  /** @internal */
-  async _startMultipartUpload(options: FileUploadOptions): Promise<void> {
+  /**
+   * Lists the parts which have been uploaded for this unfinished large file.
+   *
+   * NOTE: b2_list_parts is a Class C transaction (see [Pricing]).
+   *
+   * [Pricing]: https://www.backblaze.com/b2/cloud-storage-pricing.html
+   */
+  async *listParts({
+    startPartNumber,
+    batchSize,
+    signal,
+  }: ListPartsOptions = {}): AsyncIterable<PartData> {
+    const fileId = await this.getFileId();
+
+    while (true) {
+      const { parts, nextPartNumber } = await this.b2.call(
+        "b2_list_parts",
+        { fileId, startPartNumber, maxPartCount: batchSize },
+        { signal }
+      );
+
+      yield* parts;
+
+      if (nextPartNumber === null) break;
+
+      startPartNumber = nextPartNumber;
+    }
+  }
+
+  /**
+   * Starts a large file, or when given the `fileId` of an unfinished large
+   * file, continues it.
+   *
+   * @internal
+   */
+  async _startMultipartUpload(
+    options: FileUploadOptions,
+    fileId?: string
+  ): Promise<void> {
+    if (typeof fileId !== "undefined") {
+      this._fileData = {
+        fileName: await this.getFileName(),
+        fileId,
+        action: FileAction.start,
+      };
+      return;
+    }
+
     if (this._fileData.action === FileAction.upload) return;
 
     const [bucketId, fileName] = await Promise.all([
@@ -348,17 +978,29 @@ export default class File {
       this.getFileName(),
     ]);
 
-    const res = await this.b2.callApi("b2_start_large_file", {
-      method: "POST",
-      body: JSON.stringify({
+    this._fileData = await this.b2.call(
+      "b2_start_large_file",
+      {
         bucketId,
         fileName,
         contentType: options.contentType || "application/octet-stream",
         fileInfo: options.fileInfo,
-      }),
-    });
-
-    this._fileData = await res.json();
+        serverSideEncryption: encryptionParameter(
+          options.serverSideEncryption
+        ),
+        fileRetention:
+          typeof options.fileRetention === "undefined"
+            ? undefined
+            : retentionParameter(options.fileRetention),
+        legalHold:
+          typeof options.legalHold === "undefined"
+            ? undefined
+            : options.legalHold
+            ? "on"
+            : "off",
+      },
+      { signal: options.signal }
+    );
   }
 
   /** @internal */
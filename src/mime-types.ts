@@ -0,0 +1,52 @@
+import { extname } from "path";
+
+/**
+ * Content types by file extension, used to guess the `contentType` of files
+ * uploaded with {@linkcode Bucket.uploadFile}.
+ *
+ * Add to or change this table to affect every upload, or pass `mimeTypes`
+ * to a single upload.
+ */
+export const mimeTypes: Record<string, string> = {
+  ".txt": "text/plain",
+  ".html": "text/html",
+  ".htm": "text/html",
+  ".css": "text/css",
+  ".csv": "text/csv",
+  ".md": "text/markdown",
+  ".js": "application/javascript",
+  ".mjs": "application/javascript",
+  ".json": "application/json",
+  ".map": "application/json",
+  ".xml": "application/xml",
+  ".pdf": "application/pdf",
+  ".zip": "application/zip",
+  ".gz": "application/gzip",
+  ".tar": "application/x-tar",
+  ".wasm": "application/wasm",
+  ".png": "image/png",
+  ".jpg": "image/jpeg",
+  ".jpeg": "image/jpeg",
+  ".gif": "image/gif",
+  ".webp": "image/webp",
+  ".svg": "image/svg+xml",
+  ".ico": "image/x-icon",
+  ".mp3": "audio/mpeg",
+  ".wav": "audio/wav",
+  ".mp4": "video/mp4",
+  ".webm": "video/webm",
+  ".woff": "font/woff",
+  ".woff2": "font/woff2",
+};
+
+/**
+ * Guesses a file's content type from its extension, or `undefined` when
+ * the extension is unknown.
+ */
+export function lookupMimeType(
+  path: string,
+  table: Record<string, string> = mimeTypes
+): string | undefined {
+  const ext = extname(path).toLowerCase();
+  return table[ext] ?? mimeTypes[ext];
+}
@@ -0,0 +1,126 @@
+import { BackblazeLibraryError } from "./errors";
+
+/**
+ * - `"governance"`: the retention can be shortened or removed by keys with
+ *   the `bypassGovernance` capability.
+ * - `"compliance"`: the retention can only be extended, by anyone.
+ */
+export type RetentionMode = "governance" | "compliance";
+
+/** Prevents a file version from being deleted or changed until a time. */
+export interface FileRetention {
+  mode: RetentionMode;
+
+  /** When the file may next be deleted. */
+  retainUntil: Date | number;
+}
+
+/** How B2 reports a file version's retention. */
+export interface FileRetentionSetting {
+  /** `false` when the key is not allowed to read the retention, and `value` is unknown. */
+  isClientAuthorizedToRead: boolean;
+  value: {
+    mode: RetentionMode | null;
+    /** In milliseconds since midnight, January 1, 1970 UTC. */
+    retainUntilTimestamp: number | null;
+  } | null;
+}
+
+/** How B2 reports whether a file version is under legal hold. */
+export interface LegalHoldSetting {
+  /** `false` when the key is not allowed to read the legal hold, and `value` is unknown. */
+  isClientAuthorizedToRead: boolean;
+  value: "on" | "off" | null;
+}
+
+/** Retention applied to new files in a bucket. */
+export interface BucketRetention {
+  mode: RetentionMode | null;
+  period: {
+    duration: number;
+    unit: "days" | "years";
+  } | null;
+}
+
+/** How B2 reports a bucket's Object Lock configuration. */
+export interface FileLockConfiguration {
+  /** `false` when the key is not allowed to read the configuration, and `value` is unknown. */
+  isClientAuthorizedToRead: boolean;
+  value: {
+    defaultRetention: BucketRetention;
+    isFileLockEnabled: boolean;
+  } | null;
+}
+
+/** A file version's retention, as it is sent to B2. */
+export interface FileRetentionParameter {
+  mode: RetentionMode;
+  /** In milliseconds since midnight, January 1, 1970 UTC. */
+  retainUntilTimestamp: number;
+}
+
+/** @internal */
+export function retentionParameter(
+  retention: FileRetention
+): FileRetentionParameter {
+  if (retention.mode !== "governance" && retention.mode !== "compliance")
+    throw new BackblazeLibraryError.BadUsage(
+      `"${retention.mode}" is not a retention mode.`
+    );
+
+  return {
+    mode: retention.mode,
+    retainUntilTimestamp:
+      retention.retainUntil instanceof Date
+        ? retention.retainUntil.getTime()
+        : retention.retainUntil,
+  };
+}
+
+/** @internal */
+export function objectLockHeaders({
+  fileRetention,
+  legalHold,
+}: {
+  fileRetention?: FileRetention;
+  legalHold?: boolean;
+}): Record<string, string> {
+  const headers: Record<string, string> = {};
+
+  if (typeof fileRetention !== "undefined") {
+    const { mode, retainUntilTimestamp } = retentionParameter(fileRetention);
+    headers["X-Bz-File-Retention-Mode"] = mode;
+    headers[
+      "X-Bz-File-Retention-Retain-Until-Timestamp"
+    ] = retainUntilTimestamp.toString();
+  }
+
+  if (typeof legalHold !== "undefined")
+    headers["X-Bz-File-Legal-Hold"] = legalHold ? "on" : "off";
+
+  return headers;
+}
+
+/**
+ * Whether a file version's legal hold or retention prevents deleting it,
+ * even with `bypassGovernance` when that is given.
+ *
+ * @internal
+ */
+export function isDeletionLocked(
+  {
+    fileRetention,
+    legalHold,
+  }: { fileRetention?: FileRetentionSetting; legalHold?: LegalHoldSetting },
+  bypassGovernance: boolean = false
+): boolean {
+  if (legalHold && legalHold.value === "on") return true;
+
+  const retention = fileRetention && fileRetention.value;
+  return (
+    !!retention &&
+    retention.retainUntilTimestamp !== null &&
+    retention.retainUntilTimestamp > Date.now() &&
+    (retention.mode === "compliance" || !bypassGovernance)
+  );
+}
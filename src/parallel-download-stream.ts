@@ -0,0 +1,214 @@
+import { Readable } from "stream";
+import { createHash, Hash } from "crypto";
+import { AbortSignal, createAbortController } from "./abort";
+import { BackblazeLibraryError } from "./errors";
+import { DownloadOptions } from "./file-download-stream";
+import { MB } from "./file-sizes";
+import { DownloadProgress } from "./progress";
+import RetryPolicy, { RetryOptions } from "./retry-policy";
+
+export interface ParallelDownloadOptions
+  extends Pick<DownloadOptions, "verify" | "serverSideEncryption" | "signal"> {
+  /** The most chunks to download at once, each over its own connection. Defaults to 4. */
+  connections?: number;
+
+  /**
+   * The size of each chunk, in bytes. Defaults to 16 MB.
+   *
+   * Up to `connections` chunks are held in memory at once.
+   */
+  chunkSize?: number;
+
+  /** Overrides the client's retry policy for each chunk. */
+  retry?: RetryOptions;
+
+  /** @deprecated Use `retry.maxAttempts`, which counts the first attempt too. */
+  maxRetries?: number;
+
+  /** @deprecated Use `retry.initialDelay`. */
+  backoff?: number;
+}
+
+/** @internal */
+export type FetchRange = (
+  start: number,
+  end: number,
+  signal: AbortSignal | undefined
+) => Promise<Buffer>;
+
+/** @internal */
+export default interface ParallelDownloadStream {
+  on(event: "progress", listener: (progress: DownloadProgress) => void): this;
+  on(event: string | symbol, listener: (...args: any[]) => void): this;
+}
+
+/**
+ * Downloads a file as several ranges at once, and reassembles them in order.
+ *
+ * Emits `"progress"` with {@linkcode DownloadProgress} as each chunk is emitted.
+ *
+ * @internal
+ */
+export default class ParallelDownloadStream extends Readable {
+  readonly connections: number;
+  readonly chunkSize: number;
+  private fetchRange?: FetchRange;
+  private retryPolicy?: RetryPolicy;
+  private contentLength: number = 0;
+  private chunkCount: number = 0;
+
+  /** Chunks which are downloading or downloaded, by index, which haven't been pushed. */
+  private readonly chunks = new Map<number, Promise<Buffer>>();
+  private nextToFetch: number = 0;
+  private nextToPush: number = 0;
+  private waiting: boolean = false;
+
+  private hash?: Hash;
+  private expectedSha1?: string;
+
+  /** Aborts the requests of chunks which are downloading, once the stream is destroyed. */
+  private readonly chunksController = createAbortController();
+  private readonly signal?: AbortSignal;
+
+  constructor({
+    connections = 4,
+    chunkSize = 16 * MB,
+    signal,
+  }: ParallelDownloadOptions = {}) {
+    super();
+
+    if (!Number.isInteger(connections) || connections < 1)
+      throw new BackblazeLibraryError.BadUsage(
+        "Download connections must be a whole number of at least 1."
+      );
+    if (!Number.isInteger(chunkSize) || chunkSize < 1)
+      throw new BackblazeLibraryError.BadUsage(
+        "The chunk size must be a whole number of bytes."
+      );
+
+    this.connections = connections;
+    this.chunkSize = chunkSize;
+    this.signal = signal;
+
+    if (signal) {
+      const onAbort = () =>
+        this.destroy(
+          new BackblazeLibraryError.Aborted("The download was aborted.")
+        );
+
+      if (signal.aborted) {
+        process.nextTick(onAbort);
+      } else {
+        signal.addEventListener("abort", onAbort);
+        this.once("close", () => signal.removeEventListener("abort", onAbort));
+      }
+    }
+  }
+
+  /** Sends the requests for chunks, falling back to the download's own `signal`. */
+  private get chunksSignal() {
+    return this.chunksController ? this.chunksController.signal : this.signal;
+  }
+
+  /** @internal */
+  _start(
+    fetchRange: FetchRange,
+    contentLength: number,
+    expectedSha1: string | undefined,
+    retryPolicy: RetryPolicy
+  ) {
+    this.fetchRange = fetchRange;
+    this.retryPolicy = retryPolicy.with({
+      isRetryable: (err) => !this.destroyed && retryPolicy.isRetryable(err),
+    });
+    this.contentLength = contentLength;
+    this.chunkCount = Math.ceil(contentLength / this.chunkSize);
+    this.expectedSha1 = expectedSha1;
+    if (typeof expectedSha1 !== "undefined") this.hash = createHash("sha1");
+
+    if (this.waiting) {
+      this.waiting = false;
+      this._read();
+    }
+  }
+
+  private async _fetchChunk(index: number): Promise<Buffer> {
+    const start = index * this.chunkSize;
+    const end = Math.min(start + this.chunkSize, this.contentLength) - 1;
+
+    return this.retryPolicy!.run(
+      "b2_download_file_by_id",
+      async () => {
+        const chunk = await this.fetchRange!(start, end, this.chunksSignal);
+        // Such as when the connection closed early, so it is retried.
+        if (chunk.byteLength !== end - start + 1)
+          throw new BackblazeLibraryError.NetworkError(
+            new Error(
+              `Expected ${end - start + 1} bytes, but downloaded ${chunk.byteLength}.`
+            )
+          );
+        return chunk;
+      },
+      this.chunksSignal
+    );
+  }
+
+  private _fill() {
+    while (
+      this.nextToFetch < this.chunkCount &&
+      this.nextToFetch < this.nextToPush + this.connections
+    ) {
+      const chunk = this._fetchChunk(this.nextToFetch);
+      // Failures are handled when the chunk's turn comes.
+      chunk.catch(() => {});
+      this.chunks.set(this.nextToFetch++, chunk);
+    }
+  }
+
+  _read() {
+    if (typeof this.fetchRange === "undefined") {
+      this.waiting = true;
+      return;
+    }
+
+    if (this.nextToPush >= this.chunkCount) {
+      if (this.hash) {
+        const digest = this.hash.digest("hex");
+        this.hash = undefined;
+        if (digest !== this.expectedSha1)
+          return void this.destroy(
+            new BackblazeLibraryError.ChecksumMismatch(
+              `The SHA1 of the data downloaded, ${digest}, does not match ${this.expectedSha1}.`
+            )
+          );
+      }
+      return void this.push(null);
+    }
+
+    this._fill();
+
+    const index = this.nextToPush;
+    this.chunks.get(index)!.then(
+      (chunk) => {
+        if (this.nextToPush !== index) return;
+        this.chunks.delete(index);
+        this.nextToPush++;
+        if (this.hash) this.hash.update(chunk);
+        this.push(chunk);
+        this.emit("progress", {
+          bytesTransferred: Math.min(
+            this.nextToPush * this.chunkSize,
+            this.contentLength
+          ),
+          totalBytes: this.contentLength,
+        });
+      },
+      (err) => this.destroy(err)
+    );
+  }
+
+  _destroy(err: Error | null, cb: (err: Error | null) => void) {
+    if (this.chunksController) this.chunksController.abort();
+    cb(err);
+  }
+}
@@ -0,0 +1,23 @@
+/** Emitted as `"progress"` by downloads. */
+export interface DownloadProgress {
+  /** The bytes received so far. */
+  bytesTransferred: number;
+
+  /** The bytes expected in all, when known. */
+  totalBytes?: number;
+}
+
+/**
+ * Emitted as `"progress"` by uploads, and passed to
+ * {@linkcode FileUploadOptions.onProgress}, each time B2 acknowledges a part.
+ */
+export interface UploadProgress extends DownloadProgress {
+  /** The parts which B2 has acknowledged so far. */
+  partsCompleted: number;
+
+  /** The number of parts in all, when known. Single-part uploads have one part. */
+  partsTotal?: number;
+
+  /** The part which was just acknowledged. */
+  partNumber: number;
+}
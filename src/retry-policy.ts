@@ -0,0 +1,216 @@
+import BackblazeServerError, { BackblazeLibraryError } from "./errors";
+import { AbortSignal, throwIfAborted, toAbortedError } from "./abort";
+
+/** Describes a failed attempt which is about to be retried. */
+export interface RetryEvent {
+  /** The operation being retried, such as `"b2_upload_part"`. */
+  operation: string;
+
+  /** The attempt which failed, counting from 1. */
+  attempt: number;
+
+  /** How long until the next attempt, in milliseconds. */
+  delay: number;
+
+  /** Why the attempt failed. */
+  error: unknown;
+}
+
+export interface RetryOptions {
+  /** The most attempts at a request, including the first. Defaults to 6. */
+  maxAttempts?: number;
+
+  /** The delay before the first retry, in milliseconds, which doubles each retry. Defaults to 150. */
+  initialDelay?: number;
+
+  /** The longest delay between attempts, in milliseconds, unless B2 asks for longer. Defaults to 30 seconds. */
+  maxDelay?: number;
+
+  /**
+   * How much to randomly vary each delay by, as a fraction of it, so that
+   * clients which failed together don't retry together. Defaults to 0.5.
+   */
+  jitter?: number;
+
+  /** Whether to wait as long as the `Retry-After` header of a response asks. Defaults to `true`. */
+  respectRetryAfter?: boolean;
+
+  /** Decides whether a failed attempt may be retried. Defaults to {@linkcode isRetryableError}. */
+  isRetryable?: (error: unknown) => boolean;
+
+  /** Called before each retry, such as to log it. */
+  onRetry?: (event: RetryEvent) => void;
+}
+
+/** The types of `node-fetch`'s errors for a failed connection or a timeout. */
+const retryableFetchErrorTypes = ["system", "request-timeout", "body-timeout"];
+
+/** The codes of Node's errors for a connection which failed or was cut short. */
+const retryableErrorCodes = [
+  "ECONNRESET",
+  "ECONNREFUSED",
+  "ECONNABORTED",
+  "EPIPE",
+  "ETIMEDOUT",
+  "ENOTFOUND",
+  "EAI_AGAIN",
+  "ERR_STREAM_PREMATURE_CLOSE",
+];
+
+/**
+ * Whether a failed attempt may succeed if it is retried, from the error's
+ * `isRetryable`: network errors, timeouts, rate limits, expired tokens and
+ * B2's 500 and 503 errors.
+ *
+ * Other errors are only retried when they are failures to reach B2 or to read
+ * its response, such as a reset connection. Bugs, like a `TypeError`, aren't.
+ */
+export function isRetryableError(error: unknown): boolean {
+  if (error instanceof BackblazeLibraryError) return error.isRetryable;
+  if (!(error instanceof Error)) return false;
+
+  const { type, code } = error as { type?: unknown; code?: unknown };
+  if (error.name === "FetchError")
+    return (
+      (typeof type === "string" && retryableFetchErrorTypes.includes(type)) ||
+      (typeof code === "string" && retryableErrorCodes.includes(code))
+    );
+  return typeof code === "string" && retryableErrorCodes.includes(code);
+}
+
+function wait(ms: number, signal?: AbortSignal | null): Promise<void> {
+  return new Promise((res, rej) => {
+    const aborted = () => {
+      clearTimeout(timeout);
+      rej(new BackblazeLibraryError.Aborted("The operation was aborted."));
+    };
+    const timeout = setTimeout(() => {
+      if (signal) signal.removeEventListener("abort", aborted);
+      res();
+    }, ms);
+    if (signal) signal.addEventListener("abort", aborted, { once: true });
+  });
+}
+
+/**
+ * When and how often to retry failed requests.
+ *
+ * Configured for a client with the `retry` option of {@linkcode B2.authorize},
+ * and overridden for a single operation with its own `retry` option.
+ */
+export default class RetryPolicy {
+  readonly maxAttempts: number;
+  readonly initialDelay: number;
+  readonly maxDelay: number;
+  readonly jitter: number;
+  readonly respectRetryAfter: boolean;
+
+  private readonly options: RetryOptions;
+
+  constructor(options: RetryOptions = {}) {
+    const {
+      maxAttempts = 6,
+      initialDelay = 150,
+      maxDelay = 30 * 1000,
+      jitter = 0.5,
+      respectRetryAfter = true,
+    } = options;
+
+    if (!Number.isInteger(maxAttempts) || maxAttempts < 1)
+      throw new BackblazeLibraryError.BadUsage(
+        "maxAttempts must be a whole number of at least 1."
+      );
+    if (jitter < 0 || jitter > 1)
+      throw new BackblazeLibraryError.BadUsage(
+        "jitter must be between 0 and 1."
+      );
+
+    this.options = options;
+    this.maxAttempts = maxAttempts;
+    this.initialDelay = initialDelay;
+    this.maxDelay = maxDelay;
+    this.jitter = jitter;
+    this.respectRetryAfter = respectRetryAfter;
+  }
+
+  /** A policy like this one, with `overrides` taking precedence. */
+  with(overrides: RetryOptions | undefined): RetryPolicy {
+    if (typeof overrides === "undefined") return this;
+    return new RetryPolicy({ ...this.options, ...overrides });
+  }
+
+  isRetryable(error: unknown): boolean {
+    return (this.options.isRetryable || isRetryableError)(error);
+  }
+
+  /** How long to wait after the failed `attempt`, in milliseconds. */
+  delay(attempt: number, error?: unknown): number {
+    const backoff = Math.min(
+      this.maxDelay,
+      this.initialDelay * Math.pow(2, attempt - 1)
+    );
+    const jittered = backoff * (1 - this.jitter + 2 * this.jitter * Math.random());
+
+    const retryAfter =
+      this.respectRetryAfter &&
+      error instanceof BackblazeServerError &&
+      typeof error.retryAfter !== "undefined"
+        ? error.retryAfter
+        : 0;
+    return Math.max(jittered, retryAfter);
+  }
+
+  /**
+   * Calls `attempt` until it succeeds, it fails with an error which can't be
+   * retried, or there have been `maxAttempts`.
+   */
+  async run<T>(
+    operation: string,
+    attempt: (attempt: number) => Promise<T>,
+    signal?: AbortSignal | null
+  ): Promise<T> {
+    for (let n = 1; ; n++) {
+      try {
+        return await attempt(n);
+      } catch (err) {
+        const error = toAbortedError(err);
+        if (n >= this.maxAttempts || !this.isRetryable(error)) throw error;
+
+        const delay = this.delay(n, error);
+        if (this.options.onRetry)
+          this.options.onRetry({ operation, attempt: n, delay, error });
+
+        throwIfAborted(signal);
+        await wait(delay, signal);
+      }
+    }
+  }
+}
+
+/**
+ * Converts the `retry`, `maxRetries` and `backoff` options of an operation to
+ * overrides of the client's policy.
+ *
+ * @internal
+ */
+export function retryOverrides({
+  retry,
+  maxRetries,
+  backoff,
+}: {
+  retry?: RetryOptions;
+  maxRetries?: number;
+  backoff?: number;
+}): RetryOptions | undefined {
+  if (
+    typeof maxRetries === "undefined" &&
+    typeof backoff === "undefined"
+  )
+    return retry;
+
+  return {
+    ...(typeof maxRetries !== "undefined" && { maxAttempts: maxRetries + 1 }),
+    ...(typeof backoff !== "undefined" && { initialDelay: backoff }),
+    ...retry,
+  };
+}
@@ -1,60 +1,67 @@
 import B2 from "./b2";
 import Bucket from "./bucket";
-import BackblazeServerError, { BackblazeLibraryError } from "./errors";
-import fetch from "node-fetch";
+import {
+  BackblazeLibraryError,
+  networkError,
+  requestContext,
+  responseError,
+} from "./errors";
+import { Response } from "node-fetch";
 import { FileData, FileUploadOptions } from "./file";
 import AppendHashStream from "./append-hash-stream";
-
-interface SinglePartUploadUrlInfo {
-  bucketId: string;
-  uploadUrl: string;
-  authorizationToken: string;
-}
+import { encryptionHeaders } from "./encryption";
+import { objectLockHeaders } from "./object-lock";
+import { GetUploadUrlResponse } from "./api-operations/get-upload-url";
+import {
+  isReopenableBody,
+  ReopenableBody,
+} from "./api-operations/upload-part";
 
 /** @internal */
 export default class SinglePartUpload {
   private bucket: Bucket;
 
-  private info: SinglePartUploadUrlInfo;
+  private info: GetUploadUrlResponse;
 
   private _inUse: boolean = false;
   get inUse() {
     return this._inUse;
   }
 
-  private constructor(bucket: Bucket, info: SinglePartUploadUrlInfo) {
+  private _valid: boolean = true;
+  /** Whether the upload url can still be used. */
+  get valid() {
+    return this._valid;
+  }
+
+  private constructor(bucket: Bucket, info: GetUploadUrlResponse) {
     this.bucket = bucket;
     this.info = info;
   }
 
   /** Create a new single part uploader by requesting a new upload url from B2. */
   static async requestNew(bucket: Bucket): Promise<SinglePartUpload> {
-    const res = await bucket.b2.callApi("b2_get_upload_url", {
-      method: "POST",
-      body: JSON.stringify({
-        bucketId: await bucket.getBucketId(),
-      }),
+    const info = await bucket.b2.call("b2_get_upload_url", {
+      bucketId: await bucket.getBucketId(),
     });
 
-    const info = await res.json();
-
     return new SinglePartUpload(bucket, info);
   }
 
   /** @private */
   private async _upload(
     fileName: string,
-    data: NodeJS.ReadableStream | Buffer,
+    body: NodeJS.ReadableStream | Buffer | ReopenableBody,
     options: FileUploadOptions & { contentLength: number },
-    retries: number
-  ): Promise<FileData | false> {
+    attempt: number
+  ): Promise<FileData> {
+    let data = isReopenableBody(body) ? body.read() : body;
+
     let {
       fileInfo,
       contentType = "application/octet-stream",
       sha1,
       contentLength,
-      maxRetries = 5,
-      backoff = 150,
     } = options;
 
     if (typeof sha1 === "undefined") {
@@ -78,6 +85,8 @@ export default class SinglePartUpload {
       "Content-Length": contentLength.toString(),
       "X-Bz-Content-Sha1": sha1,
       "User-Agent": B2.userAgent,
+      ...encryptionHeaders(options.serverSideEncryption),
+      ...objectLockHeaders(options),
     }
 
     if(typeof fileInfo !== "undefined") {
@@ -89,88 +98,59 @@ export default class SinglePartUpload {
       }
     }
 
-    const res = await fetch(this.info.uploadUrl, {
-      method: "POST",
-      headers,
-      body: data,
-    });
-
-    const resData = await res.json();
-
-    switch (res.status) {
-      case 200:
-        return resData;
-      case 400:
-        throw new BackblazeServerError.BadRequest(resData);
-      case 401:
-        if (
-          resData.code === "bad_auth_token" ||
-          resData.code === "expired_auth_token"
-        ) {
-          return false;
-        } else {
-          throw new BackblazeServerError.UnauthorizedRequest(resData);
-        }
-      case 403:
-        throw new BackblazeServerError.UsageCapExceeded(resData);
-      case 408 /** timeout */:
-        if (retries >= maxRetries)
-          throw new BackblazeServerError.RequestTimeout(resData);
-      case 429 /** rate-limit */:
-        if (retries >= maxRetries)
-          throw new BackblazeServerError.TooManyRequests(resData);
-
-        const timeout = backoff * Math.pow(2, retries) * (0.5 + Math.random());
-
-        return new Promise((res, rej) => {
-          setTimeout(() => {
-            this._upload(
-              fileName,
-              data,
-              { ...options, contentLength },
-              retries + 1
-            ).then(res, rej);
-          }, timeout);
-        });
-      case 405:
-        throw new BackblazeLibraryError.Internal(
-          "Sent a request with the wrong HTTP method. B2 gave message: " +
-            resData.message
-        );
-      default:
-        throw new BackblazeServerError.UnknownServerError(resData);
+    let res: Response;
+    try {
+      res = await this.bucket.b2.fetch(this.info.uploadUrl, {
+        method: "POST",
+        headers,
+        body: data,
+        signal: options.signal,
+      });
+    } catch (err) {
+      this._valid = false;
+      throw networkError(
+        err,
+        requestContext("b2_upload_file", this.info.uploadUrl, attempt)
+      );
     }
+
+    if (res.status === 200) return await res.json();
+
+    /** expired auth or service unavailable - a new upload url is needed */
+    if (res.status === 401 || res.status === 503) this._valid = false;
+    throw await responseError(
+      res,
+      requestContext("b2_upload_file", this.info.uploadUrl, attempt, res)
+    );
   }
 
   /**
-   * @returns `false` when this single part upload is no longer valid.
+   * Makes a single attempt at an upload. Afterwards, `valid` is `false` if
+   * B2 asked for a new upload url.
    */
   upload(
     name: string,
-    stream: NodeJS.ReadableStream | Buffer,
-    opts: FileUploadOptions & { contentLength: number }
-  ): Promise<FileData | false>;
-
-  /**
-   * @returns `false` when this single part upload is no longer valid.
-   */
+    stream: NodeJS.ReadableStream | Buffer | ReopenableBody,
+    opts: FileUploadOptions & { contentLength: number },
+    attempt?: number
+  ): Promise<FileData>;
   upload(
     fileName: string,
     buffer: Buffer,
-    options: FileUploadOptions
-  ): Promise<FileData | false>;
+    options: FileUploadOptions,
+    attempt?: number
+  ): Promise<FileData>;
   async upload(
     fileName: string,
-    data: NodeJS.ReadableStream | Buffer,
-    options: FileUploadOptions
-  ): Promise<FileData | false> {
+    data: NodeJS.ReadableStream | Buffer | ReopenableBody,
+    options: FileUploadOptions,
+    attempt: number = 1
+  ): Promise<FileData> {
     if (this.inUse)
       throw new BackblazeLibraryError.BadUsage(
         "Tried to use a Single Part Upload which is in use."
       );
 
-    let result: FileData | false | undefined;
-
     try {
       this._inUse = true;
 
@@ -184,15 +164,14 @@ export default class SinglePartUpload {
         contentLength = data.length;
       }
 
-      result = await this._upload(
+      return await this._upload(
         fileName,
         data,
         { ...options, contentLength },
-        0
+        attempt
       );
-      return result;
     } finally {
-      if (result !== false) this._inUse = false;
+      this._inUse = false;
     }
   }
 }
@@ -0,0 +1,1070 @@
+import { createServer, IncomingMessage, Server, ServerResponse } from "http";
+import { Socket } from "net";
+import { PassThrough } from "stream";
+import { createHash, randomBytes } from "crypto";
+import { Headers, RequestInit, Response } from "node-fetch";
+import B2 from "../b2";
+import { B2KeyCapability } from "../api-operations/authorize-account";
+import { Fetch } from "../transport";
+import { MB } from "../file-sizes";
+
+export interface FakeB2Options {
+  /** Defaults to `"fakeKeyId"`. */
+  applicationKeyId?: string;
+  /** Defaults to `"fakeKey"`. */
+  applicationKey?: string;
+  /** Defaults to 100 MB. Lower it to upload large files in tests. */
+  recommendedPartSize?: number;
+  /** Defaults to 5 MB. Lower it to upload large files in tests. */
+  absoluteMinimumPartSize?: number;
+}
+
+/** A failure to respond with instead of handling a request. */
+export interface Fault {
+  /**
+   * The operation to fail, such as `"b2_upload_part"` or
+   * `"b2_download_file_by_name"`. Any operation fails when omitted.
+   */
+  operation?: string;
+
+  /** The status to respond with, such as 401, 408, 429 or 503. */
+  status: number;
+
+  /**
+   * The error code to respond with. Defaults to B2's code for the status,
+   * such as `"expired_auth_token"` for 401.
+   */
+  code?: string;
+
+  message?: string;
+
+  /** Sent as the `Retry-After` header, in seconds. */
+  retryAfter?: number;
+
+  /** How many requests to fail. Defaults to 1. */
+  times?: number;
+}
+
+/** A request the fake received, and the status it responded with. */
+export interface RecordedRequest {
+  operation: string;
+  method: string;
+  url: string;
+  status: number;
+}
+
+interface FakeRequest {
+  method: string;
+  url: URL;
+  headers: Headers;
+  body: Buffer;
+}
+
+interface FakeResponse {
+  status: number;
+  headers: Record<string, string>;
+  body?: Buffer;
+}
+
+interface FakeBucket {
+  accountId: string;
+  bucketId: string;
+  bucketName: string;
+  bucketType: string;
+  bucketInfo: Record<string, any>;
+  corsRules: any[];
+  lifecycleRules: any[];
+  revision: number;
+  options: string[];
+}
+
+interface FileVersion {
+  accountId: string;
+  action: "start" | "upload" | "hide" | "folder";
+  bucketId: string;
+  contentLength: number;
+  contentSha1: string | null;
+  contentType: string | null;
+  fileId: string | null;
+  fileInfo: Record<string, string>;
+  fileName: string;
+  uploadTimestamp: number;
+}
+
+interface StoredFile {
+  version: FileVersion;
+  body: Buffer;
+}
+
+interface LargeFile {
+  version: FileVersion;
+  parts: Map<number, { sha1: string; body: Buffer; uploadTimestamp: number }>;
+}
+
+class ApiError extends Error {
+  constructor(
+    readonly status: number,
+    readonly code: string,
+    message: string
+  ) {
+    super(message);
+  }
+}
+
+const faultCodes: Record<number, string> = {
+  400: "bad_request",
+  401: "expired_auth_token",
+  403: "cap_exceeded",
+  408: "request_timeout",
+  429: "too_many_requests",
+  500: "internal_error",
+  503: "service_unavailable",
+};
+
+const allCapabilities: B2KeyCapability[] = [
+  "listKeys",
+  "writeKeys",
+  "deleteKeys",
+  "listAllBucketNames",
+  "listBuckets",
+  "readBuckets",
+  "writeBuckets",
+  "deleteBuckets",
+  "listFiles",
+  "readFiles",
+  "shareFiles",
+  "writeFiles",
+  "deleteFiles",
+];
+
+function sha1(data: Buffer) {
+  return createHash("sha1").update(data).digest("hex");
+}
+
+function decodeHeader(value: string) {
+  return decodeURIComponent(value.replace(/\+/g, " "));
+}
+
+function abortError() {
+  return Object.assign(new Error("The user aborted a request."), {
+    name: "AbortError",
+    type: "aborted",
+  });
+}
+
+async function readBody(body: RequestInit["body"]): Promise<Buffer> {
+  if (body === null || typeof body === "undefined") return Buffer.alloc(0);
+  if (typeof body === "string") return Buffer.from(body);
+  if (Buffer.isBuffer(body)) return body;
+  if (body instanceof ArrayBuffer) return Buffer.from(body);
+  if (ArrayBuffer.isView(body))
+    return Buffer.from(body.buffer, body.byteOffset, body.byteLength);
+  if (Symbol.asyncIterator in body) {
+    const chunks: Buffer[] = [];
+    for await (const chunk of body as NodeJS.ReadableStream)
+      chunks.push(Buffer.from(chunk));
+    return Buffer.concat(chunks);
+  }
+  return Buffer.from(String(body));
+}
+
+function compareVersions(a: FileVersion, b: FileVersion) {
+  if (a.fileName !== b.fileName) return a.fileName < b.fileName ? -1 : 1;
+  return b.uploadTimestamp - a.uploadTimestamp;
+}
+
+function parseRange(header: string, size: number): [number, number] {
+  const match = /^bytes=(\d*)-(\d*)$/.exec(header.trim());
+  if (match === null || (match[1] === "" && match[2] === ""))
+    throw new ApiError(400, "bad_request", `Invalid range: ${header}`);
+
+  let start: number, end: number;
+  if (match[1] === "") {
+    start = Math.max(0, size - parseInt(match[2], 10));
+    end = size - 1;
+  } else {
+    start = parseInt(match[1], 10);
+    end = match[2] === "" ? size - 1 : Math.min(parseInt(match[2], 10), size - 1);
+  }
+
+  if (start >= size || start > end)
+    throw new ApiError(
+      416,
+      "range_not_satisfiable",
+      `The range ${header} is not satisfiable for ${size} bytes.`
+    );
+  return [start, end];
+}
+
+/**
+ * An in-memory implementation of the B2 native API, for testing code which
+ * uses the library without reaching Backblaze.
+ *
+ * Plug it in as the client's `fetch`:
+ *
+ * ```js
+ * const fake = new FakeB2();
+ * fake.createBucket("test-bucket");
+ * const b2 = await B2.authorize(fake.credentials, { fetch: fake.fetch });
+ * ```
+ *
+ * Or serve it over HTTP with {@linkcode FakeB2.listen}, and authorize with
+ * the URL it resolves with as the `realm`.
+ *
+ * Covers authorizing, buckets, single-part and large file uploads, listing,
+ * downloading by id and by name (with ranges), hiding and deleting. SHA1s are
+ * verified like B2 does, including `hex_digits_at_end`. Encryption, Object
+ * Lock, copies and keys are not emulated.
+ */
+export default class FakeB2 {
+  readonly credentials: { applicationKeyId: string; applicationKey: string };
+  readonly accountId: string = "fakeAccount";
+  readonly recommendedPartSize: number;
+  readonly absoluteMinimumPartSize: number;
+
+  /** Every request received, in order. */
+  readonly requests: RecordedRequest[] = [];
+
+  private url: string = "http://fake-b2.test";
+  private server?: Server;
+  private readonly sockets = new Set<Socket>();
+
+  private readonly faults: Fault[] = [];
+
+  private readonly accountTokens = new Set<string>();
+  /** The bucket or file id each upload token may upload to. */
+  private readonly uploadTokens = new Map<string, string>();
+  private readonly expiredTokens = new Set<string>();
+
+  private readonly buckets = new Map<string, FakeBucket>();
+  private readonly files: StoredFile[] = [];
+  private readonly largeFiles = new Map<string, LargeFile>();
+
+  private sequence: number = 0;
+  private lastTimestamp: number = 0;
+
+  constructor({
+    applicationKeyId = "fakeKeyId",
+    applicationKey = "fakeKey",
+    recommendedPartSize = 100 * MB,
+    absoluteMinimumPartSize = 5 * MB,
+  }: FakeB2Options = {}) {
+    this.credentials = { applicationKeyId, applicationKey };
+    this.recommendedPartSize = recommendedPartSize;
+    this.absoluteMinimumPartSize = absoluteMinimumPartSize;
+  }
+
+  /**
+   * Handles a request with the fake, with the signature of `node-fetch`.
+   * Requests are routed by path, whatever their host.
+   */
+  readonly fetch: Fetch = async (url, init = {}) => {
+    const { signal } = init;
+    if (signal && signal.aborted) throw abortError();
+
+    const req: FakeRequest = {
+      method: (init.method || "GET").toUpperCase(),
+      url: new URL(url),
+      headers: new Headers(init.headers),
+      body: await readBody(init.body),
+    };
+    const res = await this.handle(req);
+
+    if (signal && signal.aborted) throw abortError();
+
+    // Real responses have streams as bodies, which downloads pipe from.
+    const body = new PassThrough();
+    body.end(req.method === "HEAD" ? undefined : res.body);
+    return new Response(body, {
+      status: res.status,
+      headers: res.headers,
+    });
+  };
+
+  /**
+   * Serves the fake over HTTP.
+   *
+   * @param port Defaults to any free port.
+   * @returns The URL of the server, to authorize with as the `realm`.
+   */
+  listen(port: number = 0, host: string = "127.0.0.1"): Promise<string> {
+    const server = createServer((req, res) => this.serve(req, res));
+    server.on("connection", (socket: Socket) => {
+      this.sockets.add(socket);
+      socket.on("close", () => this.sockets.delete(socket));
+    });
+    this.server = server;
+
+    return new Promise((res, rej) => {
+      server.once("error", rej);
+      server.listen(port, host, () => {
+        const address = server.address();
+        if (address === null || typeof address === "string")
+          return rej(new Error("The fake is not listening on a port."));
+        this.url = `http://${host}:${address.port}`;
+        res(this.url);
+      });
+    });
+  }
+
+  /** Stops serving over HTTP, closing any open connections. */
+  close(): Promise<void> {
+    const server = this.server;
+    if (typeof server === "undefined") return Promise.resolve();
+    this.server = undefined;
+
+    return new Promise((res, rej) => {
+      server.close((err) => (err ? rej(err) : res()));
+      for (const socket of this.sockets) socket.destroy();
+    });
+  }
+
+  /** Fails the next matching requests with `fault` instead of handling them. */
+  injectFault(fault: Fault) {
+    this.faults.push({ times: 1, ...fault });
+  }
+
+  /** Expires every token issued so far, as B2 does after 24 hours. */
+  expireTokens() {
+    for (const token of this.accountTokens) this.expiredTokens.add(token);
+    for (const token of this.uploadTokens.keys()) this.expiredTokens.add(token);
+    this.accountTokens.clear();
+    this.uploadTokens.clear();
+  }
+
+  /** Creates a bucket, without a request. */
+  createBucket(bucketName: string, bucketType: string = "allPrivate") {
+    if (!/^[a-zA-Z0-9-]{6,50}$/.test(bucketName))
+      throw new ApiError(400, "bad_request", `Invalid bucket name: ${bucketName}`);
+    if (bucketType !== "allPublic" && bucketType !== "allPrivate")
+      throw new ApiError(400, "bad_request", `Invalid bucket type: ${bucketType}`);
+    for (const bucket of this.buckets.values())
+      if (bucket.bucketName === bucketName)
+        throw new ApiError(
+          400,
+          "duplicate_bucket_name",
+          "Bucket name is already in use."
+        );
+
+    const bucket: FakeBucket = {
+      accountId: this.accountId,
+      bucketId: this.nextId("bucket"),
+      bucketName,
+      bucketType,
+      bucketInfo: {},
+      corsRules: [],
+      lifecycleRules: [],
+      revision: 1,
+      options: [],
+    };
+    this.buckets.set(bucket.bucketId, bucket);
+    return { ...bucket };
+  }
+
+  private nextId(kind: string) {
+    return `fake_${kind}_${(++this.sequence).toString().padStart(8, "0")}`;
+  }
+
+  /** Strictly increasing, so that versions are ordered by upload. */
+  private timestamp() {
+    return (this.lastTimestamp = Math.max(Date.now(), this.lastTimestamp + 1));
+  }
+
+  private async serve(req: IncomingMessage, res: ServerResponse) {
+    try {
+      const headers = new Headers();
+      for (const [name, value] of Object.entries(req.headers))
+        if (typeof value !== "undefined")
+          headers.set(name, Array.isArray(value) ? value.join(", ") : value);
+
+      const method = (req.method || "GET").toUpperCase();
+      const response = await this.handle({
+        method,
+        url: new URL(req.url || "/", this.url),
+        headers,
+        body: await readBody(req),
+      });
+
+      res.writeHead(response.status, response.headers);
+      res.end(method === "HEAD" ? undefined : response.body);
+    } catch (err) {
+      res.writeHead(500);
+      res.end();
+    }
+  }
+
+  private async handle(req: FakeRequest): Promise<FakeResponse> {
+    const segments = req.url.pathname.split("/");
+    let operation: string;
+    if (segments[1] === "file") operation = "b2_download_file_by_name";
+    else if (segments[1] === "b2api") operation = segments[3] || "";
+    else operation = "";
+
+    let res: FakeResponse;
+    try {
+      res = this.takeFault(operation) || (await this.dispatch(operation, req));
+    } catch (err) {
+      if (!(err instanceof ApiError)) throw err;
+      res = this.error(err.status, err.code, err.message);
+    }
+
+    this.requests.push({
+      operation,
+      method: req.method,
+      url: req.url.toString(),
+      status: res.status,
+    });
+    return res;
+  }
+
+  private takeFault(operation: string): FakeResponse | undefined {
+    const fault = this.faults.find(
+      (fault) =>
+        typeof fault.operation === "undefined" || fault.operation === operation
+    );
+    if (typeof fault === "undefined") return;
+
+    if (--fault.times! <= 0) this.faults.splice(this.faults.indexOf(fault), 1);
+
+    const res = this.error(
+      fault.status,
+      fault.code || faultCodes[fault.status] || "unknown",
+      fault.message || `Injected fault in ${operation}.`
+    );
+    if (typeof fault.retryAfter !== "undefined")
+      res.headers["Retry-After"] = fault.retryAfter.toString();
+    return res;
+  }
+
+  private json(body: object, status: number = 200): FakeResponse {
+    return {
+      status,
+      headers: { "Content-Type": "application/json" },
+      body: Buffer.from(JSON.stringify(body)),
+    };
+  }
+
+  private error(status: number, code: string, message: string) {
+    return this.json({ status, code, message }, status);
+  }
+
+  private params(req: FakeRequest): Record<string, any> {
+    if (req.body.length === 0) return {};
+    try {
+      return JSON.parse(req.body.toString("utf-8"));
+    } catch (err) {
+      throw new ApiError(400, "bad_request", "The request body is not JSON.");
+    }
+  }
+
+  private dispatch(operation: string, req: FakeRequest) {
+    if (operation === "b2_authorize_account") return this.authorizeAccount(req);
+    if (operation === "b2_download_file_by_name")
+      return this.downloadFileByName(req);
+    if (operation === "b2_upload_file" || operation === "b2_upload_part") {
+      const target = decodeURIComponent(req.url.pathname.split("/")[4] || "");
+      return operation === "b2_upload_file"
+        ? this.uploadFile(req, target)
+        : this.uploadPart(req, target);
+    }
+
+    this.checkAccountToken(req.headers.get("authorization"));
+    if (operation === "b2_download_file_by_id")
+      return this.downloadFileById(req);
+
+    const params = this.params(req);
+    switch (operation) {
+      case "b2_create_bucket":
+        return this.json(this.createBucket(params.bucketName, params.bucketType));
+      case "b2_list_buckets":
+        return this.listBuckets(params);
+      case "b2_update_bucket":
+        return this.updateBucket(params);
+      case "b2_delete_bucket":
+        return this.deleteBucket(params);
+      case "b2_get_upload_url":
+        return this.getUploadUrl(params);
+      case "b2_start_large_file":
+        return this.startLargeFile(params);
+      case "b2_get_upload_part_url":
+        return this.getUploadPartUrl(params);
+      case "b2_list_parts":
+        return this.listParts(params);
+      case "b2_finish_large_file":
+        return this.finishLargeFile(params);
+      case "b2_cancel_large_file":
+        return this.cancelLargeFile(params);
+      case "b2_list_unfinished_large_files":
+        return this.listUnfinishedLargeFiles(params);
+      case "b2_list_file_names":
+        return this.listFileNames(params);
+      case "b2_list_file_versions":
+        return this.listFileVersions(params);
+      case "b2_get_file_info":
+        return this.json(this.findVersion(params.fileId).version);
+      case "b2_hide_file":
+        return this.hideFile(params);
+      case "b2_delete_file_version":
+        return this.deleteFileVersion(params);
+      default:
+        throw new ApiError(
+          404,
+          "not_found",
+          `${operation || req.url.pathname} is not supported by the fake.`
+        );
+    }
+  }
+
+  private checkToken(token: string | null, valid: boolean) {
+    if (token === null)
+      throw new ApiError(401, "bad_auth_token", "Missing Authorization header.");
+    if (this.expiredTokens.has(token))
+      throw new ApiError(
+        401,
+        "expired_auth_token",
+        "Authorization token has expired."
+      );
+    if (!valid)
+      throw new ApiError(401, "bad_auth_token", "Invalid authorization token.");
+  }
+
+  private checkAccountToken(token: string | null) {
+    this.checkToken(token, token !== null && this.accountTokens.has(token));
+  }
+
+  private issueToken() {
+    return randomBytes(20).toString("hex");
+  }
+
+  private authorizeAccount(req: FakeRequest) {
+    const { applicationKeyId, applicationKey } = this.credentials;
+    const expected =
+      "Basic " +
+      Buffer.from(applicationKeyId + ":" + applicationKey).toString("base64");
+    if (req.headers.get("authorization") !== expected)
+      throw new ApiError(401, "unauthorized", "Invalid application key.");
+
+    const authorizationToken = this.issueToken();
+    this.accountTokens.add(authorizationToken);
+
+    return this.json({
+      accountId: this.accountId,
+      authorizationToken,
+      apiUrl: this.url,
+      downloadUrl: this.url,
+      s3ApiUrl: this.url,
+      recommendedPartSize: this.recommendedPartSize,
+      absoluteMinimumPartSize: this.absoluteMinimumPartSize,
+      allowed: {
+        capabilities: allCapabilities,
+        bucketId: null,
+        bucketName: null,
+        namePrefix: null,
+      },
+    });
+  }
+
+  private findBucket(bucketId: string) {
+    const bucket = this.buckets.get(bucketId);
+    if (typeof bucket === "undefined")
+      throw new ApiError(400, "bad_bucket_id", `Invalid bucketId: ${bucketId}`);
+    return bucket;
+  }
+
+  private listBuckets({ bucketId, bucketName, bucketTypes }: Record<string, any>) {
+    const buckets = Array.from(this.buckets.values()).filter(
+      (bucket) =>
+        (typeof bucketId === "undefined" || bucket.bucketId === bucketId) &&
+        (typeof bucketName === "undefined" ||
+          bucket.bucketName === bucketName) &&
+        (!Array.isArray(bucketTypes) ||
+          bucketTypes.includes("all") ||
+          bucketTypes.includes(bucket.bucketType))
+    );
+    // Like B2, in alphabetical order by name.
+    buckets.sort((a, b) => (a.bucketName < b.bucketName ? -1 : 1));
+    return this.json({ buckets });
+  }
+
+  private updateBucket({ bucketId, ifRevisionIs, ...changes }: Record<string, any>) {
+    const bucket = this.findBucket(bucketId);
+    if (typeof ifRevisionIs !== "undefined" && ifRevisionIs !== bucket.revision)
+      throw new ApiError(409, "conflict", "The bucket has been changed.");
+
+    const { bucketType, bucketInfo, corsRules, lifecycleRules } = changes;
+    if (typeof bucketType !== "undefined") bucket.bucketType = bucketType;
+    if (typeof bucketInfo !== "undefined") bucket.bucketInfo = bucketInfo;
+    if (typeof corsRules !== "undefined") bucket.corsRules = corsRules;
+    if (typeof lifecycleRules !== "undefined")
+      bucket.lifecycleRules = lifecycleRules;
+    bucket.revision++;
+    return this.json(bucket);
+  }
+
+  private deleteBucket({ bucketId }: Record<string, any>) {
+    const bucket = this.findBucket(bucketId);
+    const inUse =
+      this.files.some((file) => file.version.bucketId === bucketId) ||
+      Array.from(this.largeFiles.values()).some(
+        (file) => file.version.bucketId === bucketId
+      );
+    if (inUse)
+      throw new ApiError(
+        400,
+        "cannot_delete_non_empty_bucket",
+        "Cannot delete non-empty bucket."
+      );
+
+    this.buckets.delete(bucketId);
+    return this.json(bucket);
+  }
+
+  /** Checks the length and SHA1 of an upload, returning its content. */
+  private verifiedBody(req: FakeRequest) {
+    const contentLength = req.headers.get("content-length");
+    if (contentLength === null || parseInt(contentLength, 10) !== req.body.length)
+      throw new ApiError(
+        400,
+        "bad_request",
+        "The Content-Length does not match the bytes received."
+      );
+
+    let body = req.body;
+    let expected = req.headers.get("x-bz-content-sha1");
+    if (expected === null)
+      throw new ApiError(400, "bad_request", "Missing X-Bz-Content-Sha1 header.");
+
+    if (expected === "hex_digits_at_end") {
+      if (body.length < 40)
+        throw new ApiError(400, "bad_request", "Missing SHA1 at the end of the data.");
+      expected = body.slice(body.length - 40).toString("ascii");
+      body = body.slice(0, body.length - 40);
+    }
+
+    const actual = sha1(body);
+    if (expected === "do_not_verify") return { body, sha1: actual, verified: false };
+
+    if (!/^[0-9a-fA-F]{40}$/.test(expected))
+      throw new ApiError(400, "bad_request", `Invalid SHA1: ${expected}`);
+    if (expected.toLowerCase() !== actual)
+      throw new ApiError(400, "bad_request", "Sha1 did not match data received");
+    return { body, sha1: actual, verified: true };
+  }
+
+  private getUploadUrl({ bucketId }: Record<string, any>) {
+    this.findBucket(bucketId);
+    const authorizationToken = this.issueToken();
+    this.uploadTokens.set(authorizationToken, bucketId);
+    return this.json({
+      bucketId,
+      uploadUrl: `${this.url}/b2api/${B2.apiVersion}/b2_upload_file/${bucketId}`,
+      authorizationToken,
+    });
+  }
+
+  private uploadFile(req: FakeRequest, bucketId: string) {
+    const token = req.headers.get("authorization");
+    this.checkToken(token, this.uploadTokens.get(token!) === bucketId);
+    this.findBucket(bucketId);
+
+    const fileName = req.headers.get("x-bz-file-name");
+    if (fileName === null)
+      throw new ApiError(400, "bad_request", "Missing X-Bz-File-Name header.");
+
+    const { body, sha1, verified } = this.verifiedBody(req);
+
+    const fileInfo: Record<string, string> = {};
+    req.headers.forEach((value, name) => {
+      if (name.startsWith("x-bz-info-"))
+        fileInfo[name.slice("x-bz-info-".length)] = decodeHeader(value);
+    });
+
+    const contentType = req.headers.get("content-type");
+    const version: FileVersion = {
+      accountId: this.accountId,
+      action: "upload",
+      bucketId,
+      contentLength: body.length,
+      contentSha1: verified ? sha1 : "unverified:" + sha1,
+      contentType:
+        contentType === null || contentType === "b2/x-auto"
+          ? "application/octet-stream"
+          : contentType,
+      fileId: this.nextId("file"),
+      fileInfo,
+      fileName: decodeHeader(fileName),
+      uploadTimestamp: this.timestamp(),
+    };
+    this.files.push({ version, body });
+    return this.json(version);
+  }
+
+  private findLargeFile(fileId: string) {
+    const file = this.largeFiles.get(fileId);
+    if (typeof file === "undefined")
+      throw new ApiError(400, "bad_request", `No active large file: ${fileId}`);
+    return file;
+  }
+
+  private startLargeFile({
+    bucketId,
+    fileName,
+    contentType,
+    fileInfo = {},
+  }: Record<string, any>) {
+    this.findBucket(bucketId);
+    if (typeof fileName !== "string" || typeof contentType !== "string")
+      throw new ApiError(400, "bad_request", "A fileName and contentType are required.");
+
+    const version: FileVersion = {
+      accountId: this.accountId,
+      action: "start",
+      bucketId,
+      contentLength: 0,
+      contentSha1: "none",
+      contentType,
+      fileId: this.nextId("file"),
+      fileInfo,
+      fileName,
+      uploadTimestamp: this.timestamp(),
+    };
+    this.largeFiles.set(version.fileId!, { version, parts: new Map() });
+    return this.json(version);
+  }
+
+  private getUploadPartUrl({ fileId }: Record<string, any>) {
+    this.findLargeFile(fileId);
+    const authorizationToken = this.issueToken();
+    this.uploadTokens.set(authorizationToken, fileId);
+    return this.json({
+      fileId,
+      uploadUrl: `${this.url}/b2api/${B2.apiVersion}/b2_upload_part/${fileId}`,
+      authorizationToken,
+    });
+  }
+
+  private uploadPart(req: FakeRequest, fileId: string) {
+    const token = req.headers.get("authorization");
+    this.checkToken(token, this.uploadTokens.get(token!) === fileId);
+    const file = this.findLargeFile(fileId);
+
+    const partNumber = parseInt(req.headers.get("x-bz-part-number") || "", 10);
+    if (!(partNumber >= 1 && partNumber <= 10000))
+      throw new ApiError(400, "bad_request", "Invalid X-Bz-Part-Number header.");
+
+    const { body, sha1 } = this.verifiedBody(req);
+    const uploadTimestamp = this.timestamp();
+    file.parts.set(partNumber, { sha1, body, uploadTimestamp });
+
+    return this.json({
+      fileId,
+      partNumber,
+      contentLength: body.length,
+      contentSha1: sha1,
+      uploadTimestamp,
+    });
+  }
+
+  private listParts({
+    fileId,
+    startPartNumber = 1,
+    maxPartCount = 100,
+  }: Record<string, any>) {
+    const file = this.findLargeFile(fileId);
+    const parts = Array.from(file.parts.entries())
+      .filter(([partNumber]) => partNumber >= startPartNumber)
+      .sort(([a], [b]) => a - b)
+      .map(([partNumber, part]) => ({
+        fileId,
+        partNumber,
+        contentLength: part.body.length,
+        contentSha1: part.sha1,
+        uploadTimestamp: part.uploadTimestamp,
+      }));
+
+    const next = parts[maxPartCount];
+    return this.json({
+      parts: parts.slice(0, maxPartCount),
+      nextPartNumber: next ? next.partNumber : null,
+    });
+  }
+
+  private finishLargeFile({ fileId, partSha1Array }: Record<string, any>) {
+    const file = this.findLargeFile(fileId);
+    if (!Array.isArray(partSha1Array) || partSha1Array.length !== file.parts.size)
+      throw new ApiError(
+        400,
+        "bad_request",
+        "The partSha1Array does not match the parts uploaded."
+      );
+
+    const bodies: Buffer[] = [];
+    partSha1Array.forEach((expected: string, i: number) => {
+      const part = file.parts.get(i + 1);
+      if (typeof part === "undefined")
+        throw new ApiError(400, "bad_request", `Part number ${i + 1} is missing.`);
+      if (part.sha1 !== expected)
+        throw new ApiError(400, "bad_request", `Part number ${i + 1} has the wrong SHA1.`);
+      if (i < partSha1Array.length - 1 && part.body.length < this.absoluteMinimumPartSize)
+        throw new ApiError(
+          400,
+          "bad_request",
+          `Part number ${i + 1} is smaller than the minimum part size.`
+        );
+      bodies.push(part.body);
+    });
+
+    const body = Buffer.concat(bodies);
+    const version: FileVersion = {
+      ...file.version,
+      action: "upload",
+      contentLength: body.length,
+    };
+    this.largeFiles.delete(fileId);
+    this.files.push({ version, body });
+    return this.json(version);
+  }
+
+  private cancelLargeFile({ fileId }: Record<string, any>) {
+    const { version } = this.findLargeFile(fileId);
+    this.largeFiles.delete(fileId);
+    return this.json({
+      fileId,
+      accountId: this.accountId,
+      bucketId: version.bucketId,
+      fileName: version.fileName,
+    });
+  }
+
+  private listUnfinishedLargeFiles({
+    bucketId,
+    namePrefix = "",
+    startFileId,
+    maxFileCount = 100,
+  }: Record<string, any>) {
+    this.findBucket(bucketId);
+    const files = Array.from(this.largeFiles.values())
+      .map((file) => file.version)
+      .filter(
+        (version) =>
+          version.bucketId === bucketId && version.fileName.startsWith(namePrefix)
+      )
+      .sort((a, b) => a.uploadTimestamp - b.uploadTimestamp);
+
+    const start =
+      typeof startFileId === "undefined"
+        ? 0
+        : Math.max(0, files.findIndex((file) => file.fileId === startFileId));
+    const next = files[start + maxFileCount];
+    return this.json({
+      files: files.slice(start, start + maxFileCount),
+      nextFileId: next ? next.fileId : null,
+    });
+  }
+
+  /**
+   * Pages through versions sorted by name, rolling up names containing the
+   * delimiter after the prefix into folders.
+   */
+  private page(
+    versions: FileVersion[],
+    { prefix = "", delimiter, maxFileCount = 100, startFileName = "" }: Record<string, any>
+  ) {
+    if (!Number.isInteger(maxFileCount) || maxFileCount < 1 || maxFileCount > 10000)
+      throw new ApiError(400, "bad_request", "maxFileCount must be from 1 to 10000.");
+
+    const files: FileVersion[] = [];
+    let lastFolder: string | undefined;
+    for (const version of versions) {
+      if (!version.fileName.startsWith(prefix)) continue;
+
+      let entry = version;
+      const end =
+        typeof delimiter === "string" && delimiter !== ""
+          ? version.fileName.indexOf(delimiter, prefix.length)
+          : -1;
+      if (end !== -1) {
+        const folderName = version.fileName.slice(0, end + delimiter.length);
+        if (folderName === lastFolder || folderName < startFileName) continue;
+        lastFolder = folderName;
+        entry = {
+          accountId: this.accountId,
+          action: "folder",
+          bucketId: version.bucketId,
+          contentLength: 0,
+          contentSha1: null,
+          contentType: null,
+          fileId: null,
+          fileInfo: {},
+          fileName: folderName,
+          uploadTimestamp: 0,
+        };
+      }
+
+      if (files.length === maxFileCount) return { files, next: entry };
+      files.push(entry);
+    }
+    return { files, next: undefined };
+  }
+
+  private listFileNames(params: Record<string, any>) {
+    const { bucketId, startFileName = "" } = params;
+    this.findBucket(bucketId);
+
+    const latest = new Map<string, FileVersion>();
+    for (const { version } of this.files)
+      if (version.bucketId === bucketId) latest.set(version.fileName, version);
+
+    const versions = Array.from(latest.values())
+      .filter(
+        (version) =>
+          version.action === "upload" && version.fileName >= startFileName
+      )
+      .sort(compareVersions);
+
+    const { files, next } = this.page(versions, params);
+    return this.json({ files, nextFileName: next ? next.fileName : null });
+  }
+
+  private listFileVersions(params: Record<string, any>) {
+    const { bucketId, startFileName = "", startFileId } = params;
+    this.findBucket(bucketId);
+
+    const versions = [
+      ...this.files.map((file) => file.version),
+      ...Array.from(this.largeFiles.values()).map((file) => file.version),
+    ]
+      .filter((version) => version.bucketId === bucketId)
+      .sort(compareVersions);
+
+    let start = versions.findIndex(
+      (version) => version.fileName >= startFileName
+    );
+    if (typeof startFileId !== "undefined") {
+      const i = versions.findIndex((version) => version.fileId === startFileId);
+      if (i !== -1 && versions[i].fileName === startFileName) start = i;
+    }
+
+    const { files, next } = this.page(
+      start === -1 ? [] : versions.slice(start),
+      params
+    );
+    return this.json({
+      files,
+      nextFileName: next ? next.fileName : null,
+      nextFileId: next ? next.fileId : null,
+    });
+  }
+
+  private findVersion(fileId: string): StoredFile {
+    const file = this.files.find((file) => file.version.fileId === fileId);
+    if (typeof file === "undefined")
+      throw new ApiError(404, "not_found", `File not present: ${fileId}`);
+    return file;
+  }
+
+  private hideFile({ bucketId, fileName }: Record<string, any>) {
+    this.findBucket(bucketId);
+    const exists = this.files.some(
+      ({ version }) =>
+        version.bucketId === bucketId && version.fileName === fileName
+    );
+    if (!exists)
+      throw new ApiError(400, "no_such_file", `File not present: ${fileName}`);
+
+    const version: FileVersion = {
+      accountId: this.accountId,
+      action: "hide",
+      bucketId,
+      contentLength: 0,
+      contentSha1: null,
+      contentType: null,
+      fileId: this.nextId("file"),
+      fileInfo: {},
+      fileName,
+      uploadTimestamp: this.timestamp(),
+    };
+    this.files.push({ version, body: Buffer.alloc(0) });
+    return this.json(version);
+  }
+
+  private deleteFileVersion({ fileId, fileName }: Record<string, any>) {
+    const largeFile = this.largeFiles.get(fileId);
+    const version = largeFile
+      ? largeFile.version
+      : this.files.find((file) => file.version.fileId === fileId)?.version;
+    if (typeof version === "undefined" || version.fileName !== fileName)
+      throw new ApiError(400, "file_not_present", `File not present: ${fileName} ${fileId}`);
+
+    if (largeFile) this.largeFiles.delete(fileId);
+    else
+      this.files.splice(
+        this.files.findIndex((file) => file.version.fileId === fileId),
+        1
+      );
+    return this.json({ fileId, fileName });
+  }
+
+  private download(req: FakeRequest, { version, body }: StoredFile): FakeResponse {
+    const headers: Record<string, string> = {
+      "Accept-Ranges": "bytes",
+      "Content-Type": version.contentType || "application/octet-stream",
+      "X-Bz-File-Id": version.fileId!,
+      "X-Bz-File-Name": B2.uriEncodeString(version.fileName),
+      "X-Bz-Content-Sha1": version.contentSha1 || "none",
+      "X-Bz-Upload-Timestamp": version.uploadTimestamp.toString(),
+    };
+    for (const [key, value] of Object.entries(version.fileInfo))
+      headers["X-Bz-Info-" + key] = encodeURIComponent(value);
+    // B2 sends the encoding a file was uploaded with, such as gzip.
+    if (typeof version.fileInfo["b2-content-encoding"] !== "undefined")
+      headers["Content-Encoding"] = version.fileInfo["b2-content-encoding"];
+
+    const range = req.headers.get("range");
+    if (range === null) {
+      headers["Content-Length"] = body.length.toString();
+      return { status: 200, headers, body };
+    }
+
+    const [start, end] = parseRange(range, body.length);
+    headers["Content-Length"] = (end - start + 1).toString();
+    headers["Content-Range"] = `bytes ${start}-${end}/${body.length}`;
+    return { status: 206, headers, body: body.slice(start, end + 1) };
+  }
+
+  private downloadFileById(req: FakeRequest) {
+    const fileId = req.url.searchParams.get("fileId");
+    const file = this.findVersion(fileId || "");
+    if (file.version.action !== "upload")
+      throw new ApiError(404, "not_found", `File not present: ${fileId}`);
+    return this.download(req, file);
+  }
+
+  private downloadFileByName(req: FakeRequest) {
+    const [, , bucketName, ...name] = req.url.pathname.split("/");
+    const fileName = decodeURIComponent(name.join("/"));
+
+    const bucket = Array.from(this.buckets.values()).find(
+      (bucket) => bucket.bucketName === decodeURIComponent(bucketName)
+    );
+    if (typeof bucket === "undefined")
+      throw new ApiError(404, "not_found", `Bucket does not exist: ${bucketName}`);
+    if (bucket.bucketType !== "allPublic")
+      this.checkAccountToken(
+        req.headers.get("authorization") ||
+          req.url.searchParams.get("Authorization")
+      );
+
+    let latest: StoredFile | undefined;
+    for (const file of this.files)
+      if (
+        file.version.bucketId === bucket.bucketId &&
+        file.version.fileName === fileName
+      )
+        latest = file;
+
+    if (typeof latest === "undefined" || latest.version.action !== "upload")
+      throw new ApiError(404, "not_found", `File with such name does not exist: ${fileName}`);
+    return this.download(req, latest);
+  }
+}
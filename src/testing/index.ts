@@ -0,0 +1,2 @@
+export { default as FakeB2 } from "./fake-b2";
+export type { FakeB2Options, Fault, RecordedRequest } from "./fake-b2";
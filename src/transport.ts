@@ -0,0 +1,83 @@
+import nodeFetch, { RequestInit, Response } from "node-fetch";
+import { Agent } from "http";
+import createHttpsProxyAgent from "https-proxy-agent";
+import { BackblazeLibraryError } from "./errors";
+import RetryPolicy, { RetryOptions } from "./retry-policy";
+import { AuthCache } from "./auth-cache";
+
+/** A `fetch` implementation, with the signature of `node-fetch`'s. */
+export type Fetch = (url: string, init?: RequestInit) => Promise<Response>;
+
+/** Where accounts are authorized, unless another realm is given. */
+export const defaultRealm = "https://api.backblazeb2.com";
+
+export interface ClientOptions {
+  /**
+   * Makes every request the client sends. Defaults to `node-fetch`.
+   *
+   * Useful for pointing the client at an emulator, or for instrumenting requests.
+   */
+  fetch?: Fetch;
+
+  /**
+   * The URL accounts are authorized at, which the API and download URLs are
+   * then learned from. Defaults to `https://api.backblazeb2.com`.
+   */
+  realm?: string;
+
+  /**
+   * The agent requests are sent with, such as an `https.Agent` with
+   * `keepAlive` set to reuse sockets.
+   */
+  agent?: Agent | ((parsedUrl: URL) => Agent);
+
+  /**
+   * The URL of an HTTP proxy to send every request through, such as
+   * `http://proxy.example.com:3128`. Can't be combined with `agent`.
+   */
+  proxy?: string;
+
+  /** When and how often to retry failed requests. See {@linkcode RetryOptions}. */
+  retry?: RetryOptions | RetryPolicy;
+
+  /**
+   * Where sessions are looked up before authorizing, and stored after, so
+   * that clients can share them. See {@linkcode MemoryAuthCache} and
+   * {@linkcode FileAuthCache}.
+   */
+  authCache?: AuthCache;
+
+  /**
+   * How long before the authorization token expires to authorize again, in
+   * milliseconds. Defaults to 1 hour.
+   */
+  refreshBefore?: number;
+}
+
+/** @internal */
+export function realmUrl(realm: string = defaultRealm) {
+  return realm.replace(/\/+$/, "");
+}
+
+/**
+ * Combines the fetch implementation, agent and proxy of the client options
+ * into the one function every request is sent with.
+ *
+ * @internal
+ */
+export function createTransport({
+  fetch = nodeFetch,
+  agent,
+  proxy,
+}: ClientOptions = {}): Fetch {
+  if (typeof proxy !== "undefined") {
+    if (typeof agent !== "undefined")
+      throw new BackblazeLibraryError.BadUsage(
+        "Only one of agent and proxy may be given."
+      );
+    agent = createHttpsProxyAgent(proxy);
+  }
+
+  if (typeof agent === "undefined") return fetch;
+  return (url, init = {}) => fetch(url, { agent, ...init });
+}
@@ -0,0 +1,77 @@
+import assert from "assert";
+import { RequestInit, Response } from "node-fetch";
+import { ApplicationKeyData } from "../src/application-key";
+import { BackblazeLibraryError } from "../src/errors";
+import FakeB2 from "../src/testing/fake-b2";
+import { authorizeFake } from "./helpers";
+
+describe("application keys", () => {
+  let fake: FakeB2;
+
+  beforeEach(() => {
+    fake = new FakeB2();
+  });
+
+  it("rejects invalid keys without a request", async () => {
+    const b2 = await authorizeFake(fake);
+    const sent = fake.requests.length;
+
+    await assert.rejects(
+      b2.createKey({
+        keyName: "tenant-1",
+        capabilities: ["readFiles"],
+        namePrefix: "tenant-1/",
+      }),
+      BackblazeLibraryError.BadUsage
+    );
+    await assert.rejects(
+      b2.createKey({
+        keyName: "tenant-1",
+        capabilities: ["readFiles"],
+        validDurationInSeconds: 0,
+      }),
+      BackblazeLibraryError.BadUsage
+    );
+
+    assert.strictEqual(fake.requests.length, sent);
+  });
+
+  it("lists keys across pages", async () => {
+    const key = (applicationKeyId: string): ApplicationKeyData => ({
+      keyName: "key-" + applicationKeyId,
+      applicationKeyId,
+      capabilities: ["readFiles"],
+      accountId: fake.accountId,
+      expirationTimestamp: null,
+      bucketId: null,
+      namePrefix: null,
+      options: [],
+    });
+    const pages: Record<string, unknown> = {
+      first: { keys: [key("1"), key("2")], nextApplicationKeyId: "3" },
+      "3": { keys: [key("3")], nextApplicationKeyId: null },
+    };
+    const starts: string[] = [];
+
+    const b2 = await authorizeFake(fake, {
+      // The fake doesn't keep keys, so B2's responses are stood in for.
+      fetch: async (url, init: RequestInit = {}) => {
+        if (!url.includes("b2_list_keys")) return fake.fetch(url, init);
+        const { startApplicationKeyId = "first" } = JSON.parse(
+          init.body as string
+        );
+        starts.push(startApplicationKeyId);
+        return new Response(JSON.stringify(pages[startApplicationKeyId]), {
+          headers: { "Content-Type": "application/json" },
+        });
+      },
+    });
+
+    const ids: string[] = [];
+    for await (const { applicationKeyId } of b2.listKeys({ batchSize: 2 }))
+      ids.push(applicationKeyId);
+
+    assert.deepStrictEqual(ids, ["1", "2", "3"]);
+    assert.deepStrictEqual(starts, ["first", "3"]);
+  });
+});
@@ -0,0 +1,64 @@
+import assert from "assert";
+import { promises as fs } from "fs";
+import { join } from "path";
+import { B2Session, FileAuthCache, MemoryAuthCache } from "../src/auth-cache";
+import FakeB2 from "../src/testing/fake-b2";
+import { authorizeFake, makeTempDir, removeDir, requestsFor } from "./helpers";
+
+describe("auth caches", () => {
+  let fake: FakeB2;
+  let dir: string;
+
+  beforeEach(async () => {
+    fake = new FakeB2();
+    dir = await makeTempDir();
+  });
+
+  afterEach(() => removeDir(dir));
+
+  /** A session authorized by `fake`, which expires at `expiresAt`. */
+  async function session(expiresAt: number): Promise<B2Session> {
+    return { ...(await authorizeFake(fake)).exportSession(), expiresAt };
+  }
+
+  it("shares sessions through a file only its owner can read", async () => {
+    const path = join(dir, "sessions.json");
+    const first = await authorizeFake(fake, {
+      authCache: new FileAuthCache(path),
+    });
+    const second = await authorizeFake(fake, {
+      authCache: new FileAuthCache(path),
+    });
+
+    assert.strictEqual(requestsFor(fake, "b2_authorize_account"), 1);
+    assert.deepStrictEqual(second.exportSession(), first.exportSession());
+    assert.strictEqual((await fs.stat(path)).mode & 0o777, 0o600);
+    assert.deepStrictEqual(await fs.readdir(dir), ["sessions.json"]);
+  });
+
+  it("forgets expired sessions", async () => {
+    const memory = new MemoryAuthCache();
+    const file = new FileAuthCache(join(dir, "sessions.json"));
+
+    for (const cache of [memory, file]) {
+      await cache.set("expired", await session(Date.now() - 1));
+      await cache.set("valid", await session(Date.now() + 60 * 1000));
+
+      assert.strictEqual(await cache.get("expired"), undefined);
+      assert.notStrictEqual(await cache.get("valid"), undefined);
+    }
+
+    const stored = JSON.parse(await fs.readFile(file.path, "utf-8"));
+    assert.deepStrictEqual(Object.keys(stored), ["valid"]);
+  });
+
+  it("replaces a file which can't be parsed", async () => {
+    const cache = new FileAuthCache(join(dir, "sessions.json"));
+    await fs.writeFile(cache.path, "{ not json");
+
+    assert.strictEqual(await cache.get("key"), undefined);
+    const stored = await session(Date.now() + 60 * 1000);
+    await cache.set("key", stored);
+    assert.deepStrictEqual(await cache.get("key"), stored);
+  });
+});
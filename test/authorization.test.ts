@@ -0,0 +1,111 @@
+import assert from "assert";
+import B2 from "../src/b2";
+import { MemoryAuthCache } from "../src/auth-cache";
+import { B2Credentials } from "../src/api-operations/authorize-account";
+import BackblazeServerError, { BackblazeLibraryError } from "../src/errors";
+import FakeB2 from "../src/testing/fake-b2";
+import { authorizeFake, requestsFor } from "./helpers";
+
+describe("authorization", () => {
+  let fake: FakeB2;
+
+  beforeEach(() => {
+    fake = new FakeB2();
+    fake.createBucket("test-bucket");
+  });
+
+  it("authorizes again once when concurrent requests find the token expired", async () => {
+    const b2 = await authorizeFake(fake);
+    fake.expireTokens();
+
+    await Promise.all(
+      Array.from({ length: 5 }, () =>
+        b2.call("b2_list_buckets", { accountId: b2.accountId })
+      )
+    );
+
+    assert.strictEqual(requestsFor(fake, "b2_authorize_account"), 2);
+    assert.strictEqual(requestsFor(fake, "b2_list_buckets"), 10);
+  });
+
+  it("authorizes once per attempt at a request", async () => {
+    const b2 = await authorizeFake(fake, {
+      retry: { maxAttempts: 3, initialDelay: 1 },
+    });
+    fake.expireTokens();
+    fake.injectFault({
+      operation: "b2_authorize_account",
+      status: 503,
+      times: 100,
+    });
+
+    await assert.rejects(
+      b2.call("b2_list_buckets", { accountId: b2.accountId }),
+      BackblazeServerError.ServiceUnavailable
+    );
+    assert.strictEqual(requestsFor(fake, "b2_authorize_account"), 1 + 3);
+  });
+
+  it("shares sessions through an auth cache", async () => {
+    const authCache = new MemoryAuthCache();
+    const first = await authorizeFake(fake, { authCache });
+    const second = await authorizeFake(fake, { authCache });
+
+    assert.strictEqual(requestsFor(fake, "b2_authorize_account"), 1);
+    assert.deepStrictEqual(second.exportSession(), first.exportSession());
+  });
+
+  it("resumes an exported session without authorizing", async () => {
+    const session = (await authorizeFake(fake)).exportSession();
+    const b2 = B2.fromSession(session, undefined, { fetch: fake.fetch });
+
+    await b2.call("b2_list_buckets", { accountId: b2.accountId });
+    assert.strictEqual(requestsFor(fake, "b2_authorize_account"), 1);
+  });
+
+  it("fails once an exported session expires, without credentials", async () => {
+    const session = (await authorizeFake(fake)).exportSession();
+    const b2 = B2.fromSession(session, undefined, { fetch: fake.fetch });
+    fake.expireTokens();
+
+    await assert.rejects(
+      b2.call("b2_list_buckets", { accountId: b2.accountId }),
+      BackblazeLibraryError.BadUsage
+    );
+  });
+
+  it("asks the credential provider again each time it authorizes", async () => {
+    const provided: B2Credentials[] = [];
+    const b2 = await B2.authorize(
+      async () => {
+        const credentials = { ...fake.credentials };
+        provided.push(credentials);
+        return credentials;
+      },
+      { fetch: fake.fetch }
+    );
+    assert.strictEqual(provided.length, 1);
+
+    fake.expireTokens();
+    await b2.call("b2_list_buckets", { accountId: b2.accountId });
+
+    assert.strictEqual(provided.length, 2);
+    assert.strictEqual(requestsFor(fake, "b2_authorize_account"), 2);
+  });
+
+  it("uses a rotated key when B2 rejects the old one", async () => {
+    let credentials = { applicationKeyId: "oldKeyId", applicationKey: "old" };
+    await assert.rejects(
+      B2.authorize(async () => credentials, {
+        fetch: fake.fetch,
+        retry: { maxAttempts: 1 },
+      })
+    );
+
+    credentials = fake.credentials;
+    const b2 = await B2.authorize(async () => credentials, {
+      fetch: fake.fetch,
+    });
+    assert.strictEqual(b2.accountId, fake.accountId);
+  });
+});
@@ -0,0 +1,127 @@
+import assert from "assert";
+import {
+  CorsOperation,
+  CorsRule,
+  LifecycleRule,
+  validateCorsRules,
+  validateLifecycleRules,
+} from "../src/bucket-rules";
+import { BackblazeLibraryError } from "../src/errors";
+import FakeB2 from "../src/testing/fake-b2";
+import { authorizeFake, requestsFor } from "./helpers";
+
+const corsRule: CorsRule = {
+  corsRuleName: "downloadFromAnyOrigin",
+  allowedOrigins: ["https://*.example.com"],
+  allowedOperations: ["b2_download_file_by_name"],
+  allowedHeaders: ["range"],
+  maxAgeSeconds: 3600,
+};
+
+const lifecycleRule: LifecycleRule = {
+  fileNamePrefix: "logs/",
+  daysFromUploadingToHiding: 30,
+  daysFromHidingToDeleting: 1,
+};
+
+describe("bucket rules", () => {
+  let fake: FakeB2;
+
+  beforeEach(() => {
+    fake = new FakeB2();
+    fake.createBucket("test-bucket");
+  });
+
+  it("updates a bucket's CORS and lifecycle rules", async () => {
+    const b2 = await authorizeFake(fake);
+    const bucket = await b2.bucket("test-bucket");
+
+    await bucket.update({
+      corsRules: [corsRule],
+      lifecycleRules: [lifecycleRule],
+    });
+
+    const info = await bucket.refreshBucketInfo();
+    assert.deepStrictEqual(info.corsRules, [corsRule]);
+    assert.deepStrictEqual(info.lifecycleRules, [lifecycleRule]);
+  });
+
+  it("rejects invalid rules without a request", async () => {
+    const b2 = await authorizeFake(fake);
+    const bucket = await b2.bucket("test-bucket");
+
+    await assert.rejects(
+      bucket.update({ corsRules: [{ ...corsRule, maxAgeSeconds: -1 }] }),
+      BackblazeLibraryError.BadUsage
+    );
+    await assert.rejects(
+      b2.createBucket("other-bucket", {
+        bucketType: "allPrivate",
+        lifecycleRules: [
+          lifecycleRule,
+          { ...lifecycleRule, fileNamePrefix: "" },
+        ],
+      }),
+      BackblazeLibraryError.BadUsage
+    );
+
+    assert.strictEqual(requestsFor(fake, "b2_update_bucket"), 0);
+    assert.strictEqual(requestsFor(fake, "b2_create_bucket"), 0);
+  });
+
+  it("checks CORS rules against B2's limits", () => {
+    validateCorsRules([corsRule]);
+
+    const invalid: Partial<CorsRule>[] = [
+      { corsRuleName: "short" },
+      { corsRuleName: "b2-downloads" },
+      { corsRuleName: "with spaces" },
+      { allowedOrigins: [] },
+      { allowedOrigins: ["https://*.*.example.com"] },
+      { allowedOperations: [] },
+      { allowedOperations: ["b2_delete_file_version" as CorsOperation] },
+      { allowedHeaders: ["x-*-*"] },
+      { maxAgeSeconds: 86401 },
+      { maxAgeSeconds: 1.5 },
+    ];
+    for (const changes of invalid)
+      assert.throws(
+        () => validateCorsRules([{ ...corsRule, ...changes }]),
+        BackblazeLibraryError.BadUsage,
+        JSON.stringify(changes)
+      );
+
+    assert.throws(
+      () => validateCorsRules([corsRule, corsRule]),
+      /used by more than one rule/
+    );
+  });
+
+  it("checks lifecycle rules against B2's limits", () => {
+    validateLifecycleRules([
+      lifecycleRule,
+      { ...lifecycleRule, fileNamePrefix: "backups/" },
+    ]);
+
+    const invalid: Partial<LifecycleRule>[] = [
+      { daysFromUploadingToHiding: 0 },
+      { daysFromHidingToDeleting: 2.5 },
+      { daysFromUploadingToHiding: null, daysFromHidingToDeleting: null },
+    ];
+    for (const changes of invalid)
+      assert.throws(
+        () => validateLifecycleRules([{ ...lifecycleRule, ...changes }]),
+        BackblazeLibraryError.BadUsage,
+        JSON.stringify(changes)
+      );
+
+    assert.throws(
+      () =>
+        validateLifecycleRules([
+          lifecycleRule,
+          { ...lifecycleRule, fileNamePrefix: "logs/2020/" },
+        ]),
+      /overlaps the rule for prefix "logs\/2020\/"/
+    );
+  });
+});
@@ -0,0 +1,57 @@
+import assert from "assert";
+import BackblazeServerError from "../src/errors";
+import FakeB2 from "../src/testing/fake-b2";
+import { authorizeFake } from "./helpers";
+
+describe("buckets", () => {
+  let fake: FakeB2;
+
+  beforeEach(() => {
+    fake = new FakeB2();
+    fake.createBucket("test-bucket");
+  });
+
+  it("creates, lists, updates and deletes buckets", async () => {
+    const b2 = await authorizeFake(fake);
+    const bucket = await b2.createBucket("new-bucket", {
+      bucketType: "allPrivate",
+    });
+
+    const names = async (bucketTypes?: string[]) =>
+      (await b2.listBuckets({ bucketTypes })).map((b) => b.info.bucketName);
+    assert.deepStrictEqual(await names(), ["new-bucket", "test-bucket"]);
+    assert.deepStrictEqual(await names(["allPublic"]), []);
+
+    const info = await bucket.update({
+      bucketType: "allPublic",
+      bucketInfo: { team: "web" },
+    });
+    assert.strictEqual(info.bucketType, "allPublic");
+    assert.deepStrictEqual(info.bucketInfo, { team: "web" });
+    assert.deepStrictEqual(await names(["allPublic"]), ["new-bucket"]);
+
+    await bucket.delete();
+    assert.deepStrictEqual(await names(), ["test-bucket"]);
+  });
+
+  it("rejects an update to a bucket which changed since it was loaded", async () => {
+    const b2 = await authorizeFake(fake);
+    const first = await b2.bucket("test-bucket");
+    const second = await b2.bucket("test-bucket");
+    await first.refreshBucketInfo();
+    await second.refreshBucketInfo();
+
+    await first.update({ bucketInfo: { owner: "first" } });
+    await assert.rejects(
+      second.update({ bucketInfo: { owner: "second" } }),
+      BackblazeServerError.Conflict
+    );
+
+    await second.refreshBucketInfo();
+    await second.update({ bucketInfo: { owner: "second" } });
+    assert.deepStrictEqual(
+      (await first.refreshBucketInfo()).bucketInfo,
+      { owner: "second" }
+    );
+  });
+});
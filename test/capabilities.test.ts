@@ -0,0 +1,120 @@
+import assert from "assert";
+import B2 from "../src/b2";
+import { B2KeyCapability } from "../src/api-operations/authorize-account";
+import { BackblazeLibraryError } from "../src/errors";
+import FakeB2 from "../src/testing/fake-b2";
+import { authorizeFake } from "./helpers";
+
+describe("capabilities", () => {
+  let fake: FakeB2;
+  let bucketId: string;
+
+  /** A client whose key is restricted like `allowed`. */
+  async function restrictedClient(
+    capabilities: B2KeyCapability[],
+    namePrefix?: string
+  ) {
+    const session = (await authorizeFake(fake)).exportSession();
+    session.authorization = {
+      ...session.authorization,
+      allowed: {
+        capabilities,
+        bucketId,
+        bucketName: "test-bucket",
+        namePrefix,
+      },
+    };
+    return B2.fromSession(session, undefined, { fetch: fake.fetch });
+  }
+
+  beforeEach(() => {
+    fake = new FakeB2();
+    ({ bucketId } = fake.createBucket("test-bucket"));
+  });
+
+  it("rejects operations the key lacks the capability for, without a request", async () => {
+    const b2 = await restrictedClient(["listFiles", "readFiles"]);
+    const sent = fake.requests.length;
+
+    await assert.rejects(
+      b2.createBucket("other-bucket", { bucketType: "allPrivate" }),
+      BackblazeLibraryError.NotAllowed
+    );
+    await assert.rejects(
+      b2.call("b2_hide_file", { bucketId, fileName: "a.txt" }),
+      BackblazeLibraryError.NotAllowed
+    );
+    assert.strictEqual(fake.requests.length, sent);
+  });
+
+  it("rejects other buckets and file names outside the prefix", async () => {
+    const b2 = await restrictedClient(["listFiles", "writeFiles"], "photos/");
+    const sent = fake.requests.length;
+
+    await assert.rejects(
+      b2.bucket("other-bucket"),
+      BackblazeLibraryError.NotAllowed
+    );
+    await assert.rejects(
+      b2.call("b2_list_file_names", { bucketId, prefix: "docs/" }),
+      BackblazeLibraryError.NotAllowed
+    );
+
+    const bucket = await b2.bucket();
+    await assert.rejects(
+      bucket.upload("docs/a.txt", Buffer.from("a")),
+      BackblazeLibraryError.NotAllowed
+    );
+    assert.strictEqual(fake.requests.length, sent);
+
+    await b2.call("b2_list_file_names", { bucketId, prefix: "photos/" });
+    await bucket.upload("photos/a.txt", Buffer.from("a"));
+  });
+
+  it("stats and deletes files within the prefix", async () => {
+    const owner = await (await authorizeFake(fake)).bucket("test-bucket");
+    await owner.upload("tenant-1/a.txt", Buffer.from("a"));
+    const b2 = await restrictedClient(
+      ["listFiles", "readFiles", "deleteFiles"],
+      "tenant-1/"
+    );
+    const file = (await b2.bucket()).file("tenant-1/a.txt");
+
+    assert.strictEqual((await file.stat()).contentLength, 1);
+    await file.deleteVersion();
+    await assert.rejects(file.stat(), BackblazeLibraryError.FileNotFound);
+  });
+
+  it("requires reading the source of a copy", async () => {
+    const b2 = await restrictedClient(["writeFiles"]);
+    const sent = fake.requests.length;
+
+    await assert.rejects(
+      b2.call("b2_copy_file", {
+        sourceFileId: "fake_file_00000001",
+        destinationBucketId: bucketId,
+        fileName: "copy.txt",
+      }),
+      /"readFiles"/
+    );
+    await assert.rejects(
+      b2.call("b2_copy_part", {
+        sourceFileId: "fake_file_00000001",
+        largeFileId: "fake_file_00000002",
+        partNumber: 1,
+      }),
+      BackblazeLibraryError.NotAllowed
+    );
+    assert.strictEqual(fake.requests.length, sent);
+  });
+
+  it("answers whether the key can use a capability", async () => {
+    const b2 = await restrictedClient(["readFiles"], "photos/");
+
+    assert.ok(b2.can("readFiles"));
+    assert.ok(b2.can("readFiles", "test-bucket", "photos/a.jpg"));
+    assert.ok(!b2.can("readFiles", "test-bucket", "docs/a.txt"));
+    assert.ok(!b2.can("readFiles", "other-bucket"));
+    assert.ok(!b2.can("writeFiles"));
+  });
+});
@@ -0,0 +1,104 @@
+import assert from "assert";
+import { promises as fs } from "fs";
+import { join } from "path";
+import B2 from "../src/b2";
+import {
+  configFileCredentials,
+  environmentCredentials,
+} from "../src/credentials";
+import { BackblazeLibraryError } from "../src/errors";
+import FakeB2 from "../src/testing/fake-b2";
+import { makeTempDir, removeDir } from "./helpers";
+
+describe("credential providers", () => {
+  let fake: FakeB2;
+  let dir: string;
+
+  beforeEach(async () => {
+    fake = new FakeB2();
+    dir = await makeTempDir();
+  });
+
+  afterEach(() => removeDir(dir));
+
+  it("authorizes with credentials from the environment", async () => {
+    const { applicationKeyId, applicationKey } = fake.credentials;
+    const b2 = await B2.authorize(
+      environmentCredentials({
+        B2_APPLICATION_KEY_ID: applicationKeyId,
+        B2_APPLICATION_KEY: applicationKey,
+      }),
+      { fetch: fake.fetch }
+    );
+    assert.strictEqual(b2.accountId, fake.accountId);
+  });
+
+  it("requires both environment variables", async () => {
+    const provider = environmentCredentials({ B2_APPLICATION_KEY_ID: "id" });
+    await assert.rejects(provider(), BackblazeLibraryError.BadUsage);
+  });
+
+  it("reads a profile from a JSON config file", async () => {
+    const path = join(dir, "credentials.json");
+    await fs.writeFile(
+      path,
+      JSON.stringify({
+        default: { applicationKeyId: "other", applicationKey: "other" },
+        testing: fake.credentials,
+      })
+    );
+
+    const b2 = await B2.authorize(
+      configFileCredentials({ path, profile: "testing" }),
+      { fetch: fake.fetch }
+    );
+    assert.strictEqual(b2.accountId, fake.accountId);
+  });
+
+  it("reads a profile from an INI config file", async () => {
+    const path = join(dir, "credentials");
+    const { applicationKeyId, applicationKey } = fake.credentials;
+    await fs.writeFile(
+      path,
+      [
+        "# Keys for testing",
+        "[other]",
+        "application_key_id = other",
+        "",
+        "[default]",
+        `application_key_id = ${applicationKeyId}`,
+        `application_key = "${applicationKey}"`,
+      ].join("\n")
+    );
+
+    assert.deepStrictEqual(
+      await configFileCredentials({ path, profile: "default" })(),
+      fake.credentials
+    );
+  });
+
+  it("rejects missing files, profiles and keys", async () => {
+    const path = join(dir, "credentials");
+
+    await assert.rejects(
+      configFileCredentials({ path })(),
+      /Could not read the config file/
+    );
+
+    await fs.writeFile(path, "[default]\napplication_key_id = id\n");
+    await assert.rejects(
+      configFileCredentials({ path, profile: "other" })(),
+      /has no profile "other"/
+    );
+    await assert.rejects(
+      configFileCredentials({ path, profile: "default" })(),
+      /needs both an application key id and an application key/
+    );
+
+    await fs.writeFile(path, "{ not json");
+    await assert.rejects(
+      configFileCredentials({ path })(),
+      /is not valid JSON/
+    );
+  });
+});
@@ -0,0 +1,72 @@
+import assert from "assert";
+import { Response } from "node-fetch";
+import FakeB2 from "../src/testing/fake-b2";
+import { authorizeFake } from "./helpers";
+
+describe("download authorizations", () => {
+  let fake: FakeB2;
+  let issued: number;
+
+  // The fake doesn't emulate b2_get_download_authorization.
+  async function authorizeClient() {
+    return authorizeFake(fake, {
+      fetch: async (url, init) => {
+        if (!url.endsWith("/b2_get_download_authorization"))
+          return fake.fetch(url, init);
+        const { bucketId, fileNamePrefix } = JSON.parse(String(init!.body));
+        return new Response(
+          JSON.stringify({
+            bucketId,
+            fileNamePrefix,
+            authorizationToken: `token${++issued}`,
+          }),
+          { status: 200, headers: { "Content-Type": "application/json" } }
+        );
+      },
+    });
+  }
+
+  beforeEach(() => {
+    fake = new FakeB2();
+    fake.createBucket("test-bucket");
+    issued = 0;
+  });
+
+  it("reuses an authorization for the same duration", async () => {
+    const bucket = await (await authorizeClient()).bucket("test-bucket");
+
+    const first = await bucket.getDownloadAuthorization("public/", 3600);
+    const second = await bucket.getDownloadAuthorization("public/", 3600);
+    assert.strictEqual(second, first);
+  });
+
+  it("does not reuse an authorization for a shorter duration", async () => {
+    const bucket = await (await authorizeClient()).bucket("test-bucket");
+
+    const week = await bucket.getDownloadAuthorization("public/", 604800);
+    const minute = await bucket.getDownloadAuthorization("public/", 60);
+    assert.notStrictEqual(minute.authorizationToken, week.authorizationToken);
+    assert.ok(minute.expiresAt <= Date.now() + 60 * 1000);
+  });
+
+  it("only reuses an authorization with nearly all of its duration left", async () => {
+    const bucket = await (await authorizeClient()).bucket("test-bucket");
+
+    // Reusable for 5% of a second.
+    const first = await bucket.getDownloadAuthorization("public/", 1);
+    await new Promise((res) => setTimeout(res, 60));
+    const second = await bucket.getDownloadAuthorization("public/", 1);
+    assert.notStrictEqual(second.authorizationToken, first.authorizationToken);
+  });
+
+  it("forgets authorizations once they can't be reused", async () => {
+    const bucket = await (await authorizeClient()).bucket("test-bucket");
+
+    for (const name of ["a.txt", "b.txt", "c.txt"])
+      await bucket.file(name).getSignedUrl({ expiresIn: 1 });
+    await new Promise((res) => setTimeout(res, 60));
+    await bucket.file("d.txt").getSignedUrl({ expiresIn: 1 });
+
+    assert.strictEqual(bucket["_downloadAuthorizations"].size, 1);
+  });
+});
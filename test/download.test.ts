@@ -0,0 +1,208 @@
+import assert from "assert";
+import { promises as fs } from "fs";
+import { Headers, RequestInit, Response } from "node-fetch";
+import { join } from "path";
+import { Readable } from "stream";
+import { gzipSync } from "zlib";
+import B2 from "../src/b2";
+import { BackblazeLibraryError } from "../src/errors";
+import { DownloadProgress } from "../src/progress";
+import FakeB2 from "../src/testing/fake-b2";
+import { authorizeFake, makeTempDir, removeDir } from "./helpers";
+
+function readAll(stream: NodeJS.ReadableStream): Promise<Buffer> {
+  return new Promise((res, rej) => {
+    const chunks: Buffer[] = [];
+    stream.on("data", (chunk: Buffer) => chunks.push(chunk));
+    stream.on("error", rej);
+    stream.on("end", () => res(Buffer.concat(chunks)));
+  });
+}
+
+describe("downloads", () => {
+  let fake: FakeB2;
+  let b2: B2;
+
+  // Served over HTTP, so that responses are read like B2's.
+  beforeEach(async () => {
+    fake = new FakeB2();
+    fake.createBucket("test-bucket");
+    const realm = await fake.listen();
+    b2 = await B2.authorize(fake.credentials, { realm });
+  });
+
+  afterEach(() => fake.close());
+
+  it("downloads the stored bytes of a gzip-encoded file", async () => {
+    const gzipped = gzipSync(Buffer.from("hello, ".repeat(100)));
+    const bucket = await b2.bucket("test-bucket");
+    const file = await bucket.upload("hello.txt.gz", gzipped, {
+      fileInfo: {
+        src_last_modified_millis: Date.now().toString(),
+        "b2-content-encoding": "gzip",
+      },
+    });
+
+    assert.ok(gzipped.equals(await readAll(file.createReadStream())));
+
+    const byName = bucket.file("hello.txt.gz");
+    assert.ok(gzipped.equals(await readAll(byName.createReadStream())));
+  });
+
+  it("downloads encoded files in parallel chunks", async () => {
+    const gzipped = gzipSync(Buffer.from("hello, ".repeat(100)));
+    const bucket = await b2.bucket("test-bucket");
+    await bucket.upload("hello.txt.gz", gzipped, {
+      fileInfo: {
+        src_last_modified_millis: Date.now().toString(),
+        "b2-content-encoding": "gzip",
+      },
+    });
+
+    const stream = bucket
+      .file("hello.txt.gz")
+      .createParallelReadStream({ chunkSize: 10, retry: { maxAttempts: 1 } });
+    assert.ok(gzipped.equals(await readAll(stream)));
+  });
+
+  it("downloads a range of bytes", async () => {
+    const bucket = await b2.bucket("test-bucket");
+    await bucket.upload("hello.txt", Buffer.from("0123456789".repeat(3)));
+
+    const stream = bucket
+      .file("hello.txt")
+      .createReadStream({ start: 5, end: 14 });
+    assert.strictEqual((await readAll(stream)).toString(), "5678901234");
+    assert.strictEqual(stream.metadata!.contentRange, "bytes 5-14/30");
+    assert.strictEqual(stream.metadata!.contentLength, 10);
+  });
+
+  it("reports the progress of a download", async () => {
+    const bucket = await b2.bucket("test-bucket");
+    await bucket.upload("hello.txt", Buffer.from("0123456789".repeat(3)));
+
+    const progress: DownloadProgress[] = [];
+    const stream = bucket.file("hello.txt").createReadStream();
+    stream.on("progress", (p) => progress.push(p));
+    await readAll(stream);
+
+    assert.ok(progress.length > 0);
+    assert.deepStrictEqual(progress[progress.length - 1], {
+      bytesTransferred: 30,
+      totalBytes: 30,
+    });
+  });
+
+  it("ends without data when the file was not modified", async () => {
+    const sent: (string | null)[] = [];
+    const b2 = await authorizeFake(fake, {
+      // The fake doesn't check preconditions, so B2's response is stood in for.
+      fetch: (url, init: RequestInit = {}) => {
+        if (!url.includes("/file/test-bucket/")) return fake.fetch(url, init);
+        sent.push(new Headers(init.headers).get("If-None-Match"));
+        return Promise.resolve(
+          new Response(Readable.from([]), { status: 304 })
+        );
+      },
+    });
+    const bucket = await b2.bucket("test-bucket");
+
+    const stream = bucket
+      .file("hello.txt")
+      .createReadStream({ ifNoneMatch: '"etag"' });
+    assert.strictEqual((await readAll(stream)).byteLength, 0);
+    assert.strictEqual(stream.metadata!.notModified, true);
+    assert.deepStrictEqual(sent, ['"etag"']);
+  });
+
+  it("aborts chunks which are downloading when destroyed", async () => {
+    let aborted = 0;
+    let started = 0;
+    const b2 = await authorizeFake(fake, {
+      // Chunks hang until they are aborted.
+      fetch: (url, init: RequestInit = {}) => {
+        if (!url.includes("b2_download_file_by_id"))
+          return fake.fetch(url, init);
+        started++;
+        return new Promise((_, rej) =>
+          init.signal!.addEventListener("abort", () => {
+            aborted++;
+            rej(Object.assign(new Error("aborted"), { name: "AbortError" }));
+          })
+        );
+      },
+    });
+    const bucket = await b2.bucket("test-bucket");
+    await bucket.upload("hello.txt", Buffer.from("hello, ".repeat(10)));
+
+    const stream = bucket
+      .file("hello.txt")
+      .createParallelReadStream({ connections: 2, chunkSize: 10 });
+    const closed = new Promise((res) => stream.on("close", res));
+    stream.on("error", () => {});
+    stream.resume();
+
+    while (started < 2) await new Promise((res) => setTimeout(res, 5));
+    stream.destroy();
+    await closed;
+
+    assert.strictEqual(aborted, 2);
+  });
+
+  describe("downloadTo", () => {
+    let dir: string;
+
+    beforeEach(async () => {
+      dir = await makeTempDir();
+    });
+
+    afterEach(() => removeDir(dir));
+
+    it("saves the stored bytes of a gzip-encoded file", async () => {
+      const gzipped = gzipSync(Buffer.from("hello, ".repeat(100)));
+      const bucket = await b2.bucket("test-bucket");
+      const file = await bucket.upload("hello.txt.gz", gzipped, {
+        fileInfo: {
+          src_last_modified_millis: Date.now().toString(),
+          "b2-content-encoding": "gzip",
+        },
+      });
+
+      const localPath = join(dir, "hello.txt.gz");
+      await fs.writeFile(localPath + ".b2-partial", gzipped.slice(0, 10));
+      await fs.writeFile(localPath + ".b2-partial.id", await file.getFileId());
+      await file.downloadTo(localPath);
+
+      assert.ok(gzipped.equals(await fs.readFile(localPath)));
+      assert.deepStrictEqual(await fs.readdir(dir), ["hello.txt.gz"]);
+    });
+
+    it("resumes a partial download of the same version", async () => {
+      const bucket = await b2.bucket("test-bucket");
+      const file = await bucket.upload("hello.txt", Buffer.from("hello"));
+
+      // Resumed from, so the corrupt start is caught by the SHA1.
+      const localPath = join(dir, "hello.txt");
+      await fs.writeFile(localPath + ".b2-partial", "HE");
+      await fs.writeFile(localPath + ".b2-partial.id", await file.getFileId());
+      await assert.rejects(
+        file.downloadTo(localPath),
+        BackblazeLibraryError.ChecksumMismatch
+      );
+      assert.deepStrictEqual(await fs.readdir(dir), []);
+    });
+
+    it("starts over when the partial download is of another version", async () => {
+      const bucket = await b2.bucket("test-bucket");
+      const old = await bucket.upload("hello.txt", Buffer.from("HEllo"));
+      const localPath = join(dir, "hello.txt");
+      await fs.writeFile(localPath + ".b2-partial", "HE");
+      await fs.writeFile(localPath + ".b2-partial.id", await old.getFileId());
+
+      const file = await bucket.upload("hello.txt", Buffer.from("hello"));
+      await file.downloadTo(localPath);
+
+      assert.strictEqual(await fs.readFile(localPath, "utf-8"), "hello");
+    });
+  });
+});
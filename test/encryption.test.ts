@@ -0,0 +1,137 @@
+import assert from "assert";
+import { createHash, randomBytes } from "crypto";
+import { Headers, RequestInit } from "node-fetch";
+import { ServerSideEncryption } from "../src/encryption";
+import { BackblazeLibraryError } from "../src/errors";
+import FakeB2 from "../src/testing/fake-b2";
+import { authorizeFake, requestsFor } from "./helpers";
+
+interface SentRequest {
+  url: string;
+  headers: Headers;
+  body?: string;
+}
+
+describe("server-side encryption", () => {
+  let fake: FakeB2;
+  let sent: SentRequest[];
+
+  /** A client of `fake`, which records each request it sends. */
+  function recordingClient() {
+    return authorizeFake(fake, {
+      fetch: (url, init: RequestInit = {}) => {
+        sent.push({
+          url,
+          headers: new Headers(init.headers),
+          body: typeof init.body === "string" ? init.body : undefined,
+        });
+        return fake.fetch(url, init);
+      },
+    });
+  }
+
+  function sentTo(operation: string) {
+    return sent.filter(({ url }) => url.includes(operation));
+  }
+
+  beforeEach(() => {
+    fake = new FakeB2({ recommendedPartSize: 10, absoluteMinimumPartSize: 10 });
+    fake.createBucket("test-bucket");
+    sent = [];
+  });
+
+  it("asks B2 to encrypt uploads with SSE-B2, but not each part", async () => {
+    const b2 = await recordingClient();
+    const bucket = await b2.bucket("test-bucket");
+    const serverSideEncryption: ServerSideEncryption = {
+      mode: "SSE-B2",
+      algorithm: "AES256",
+    };
+
+    await bucket.upload("small.txt", Buffer.from("hello"), {
+      serverSideEncryption,
+    });
+    const [upload] = sentTo("b2_upload_file");
+    assert.strictEqual(
+      upload.headers.get("X-Bz-Server-Side-Encryption"),
+      "AES256"
+    );
+
+    await bucket.upload("large.txt", Buffer.from("0123456789".repeat(3)), {
+      serverSideEncryption,
+    });
+    const [start] = sentTo("b2_start_large_file");
+    assert.deepStrictEqual(
+      JSON.parse(start.body!).serverSideEncryption,
+      serverSideEncryption
+    );
+    const parts = sentTo("b2_upload_part/");
+    assert.strictEqual(parts.length, 3);
+    for (const part of parts)
+      assert.strictEqual(part.headers.get("X-Bz-Server-Side-Encryption"), null);
+  });
+
+  it("sends the SSE-C key with uploads, parts and downloads", async () => {
+    const b2 = await recordingClient();
+    const bucket = await b2.bucket("test-bucket");
+    const key = randomBytes(32);
+    const serverSideEncryption: ServerSideEncryption = {
+      mode: "SSE-C",
+      algorithm: "AES256",
+      customerKey: key.toString("base64"),
+    };
+    const expected = {
+      "x-bz-server-side-encryption-customer-algorithm": "AES256",
+      "x-bz-server-side-encryption-customer-key": key.toString("base64"),
+      "x-bz-server-side-encryption-customer-key-md5": createHash("md5")
+        .update(key)
+        .digest("base64"),
+    };
+    const encryptionHeaders = ({ headers }: SentRequest) =>
+      Object.keys(expected).reduce(
+        (found, name) => ({ ...found, [name]: headers.get(name) }),
+        {}
+      );
+
+    await bucket.upload("small.txt", Buffer.from("hello"), {
+      serverSideEncryption,
+    });
+    await bucket.upload("large.txt", Buffer.from("0123456789".repeat(3)), {
+      serverSideEncryption,
+    });
+    await new Promise((res, rej) =>
+      bucket
+        .file("small.txt")
+        .createReadStream({ serverSideEncryption })
+        .on("error", rej)
+        .on("end", res)
+        .resume()
+    );
+
+    const requests = [
+      ...sentTo("b2_upload_file"),
+      ...sentTo("b2_upload_part/"),
+      ...sentTo("/file/test-bucket/small.txt"),
+    ];
+    assert.strictEqual(requests.length, 5);
+    for (const request of requests)
+      assert.deepStrictEqual(encryptionHeaders(request), expected);
+  });
+
+  it("rejects SSE-C keys which aren't 256 bits, without uploading", async () => {
+    const b2 = await authorizeFake(fake);
+    const bucket = await b2.bucket("test-bucket");
+
+    await assert.rejects(
+      bucket.upload("small.txt", Buffer.from("hello"), {
+        serverSideEncryption: {
+          mode: "SSE-C",
+          algorithm: "AES256",
+          customerKey: randomBytes(16).toString("base64"),
+        },
+      }),
+      BackblazeLibraryError.BadUsage
+    );
+    assert.strictEqual(requestsFor(fake, "b2_upload_file"), 0);
+  });
+});
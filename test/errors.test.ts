@@ -0,0 +1,85 @@
+import assert from "assert";
+import BackblazeServerError, { BackblazeLibraryError } from "../src/errors";
+import FakeB2 from "../src/testing/fake-b2";
+import { authorizeFake } from "./helpers";
+
+describe("errors", () => {
+  let fake: FakeB2;
+
+  beforeEach(() => {
+    fake = new FakeB2();
+    fake.createBucket("test-bucket");
+  });
+
+  it("maps B2's codes to error classes", async () => {
+    const b2 = await authorizeFake(fake);
+
+    await assert.rejects(
+      b2.createBucket("test-bucket", { bucketType: "allPrivate" }),
+      (err: BackblazeServerError) => {
+        assert.ok(err instanceof BackblazeServerError.DuplicateBucketName);
+        assert.ok(err instanceof BackblazeServerError.BadRequest);
+        assert.strictEqual(err.apiData.code, "duplicate_bucket_name");
+        assert.strictEqual(err.apiData.status, 400);
+        assert.strictEqual(err.isRetryable, false);
+        return true;
+      }
+    );
+  });
+
+  it("maps unknown codes by status", async () => {
+    const b2 = await authorizeFake(fake);
+    fake.injectFault({
+      operation: "b2_list_buckets",
+      status: 403,
+      code: "something_new",
+    });
+
+    await assert.rejects(
+      b2.call("b2_list_buckets", { accountId: b2.accountId }),
+      BackblazeServerError.Forbidden
+    );
+  });
+
+  it("describes the request an error was caused by", async () => {
+    const b2 = await authorizeFake(fake, { retry: { maxAttempts: 1 } });
+    fake.injectFault({ operation: "b2_list_buckets", status: 500 });
+
+    await assert.rejects(
+      b2.call("b2_list_buckets", { accountId: b2.accountId }),
+      (err: BackblazeServerError) => {
+        assert.ok(err instanceof BackblazeServerError.InternalServerError);
+        assert.ok(err.isRetryable);
+        assert.deepStrictEqual(err.context, {
+          operation: "b2_list_buckets",
+          url: "http://fake-b2.test/b2api/v2/b2_list_buckets",
+          attempt: 1,
+        });
+        return true;
+      }
+    );
+  });
+
+  it("wraps failures to reach B2 as retryable network errors", async () => {
+    const b2 = await authorizeFake(fake, {
+      fetch: async (url, init) => {
+        if (url.endsWith("b2_list_buckets"))
+          throw Object.assign(new Error("connect ECONNREFUSED"), {
+            code: "ECONNREFUSED",
+          });
+        return fake.fetch(url, init);
+      },
+      retry: { maxAttempts: 2, initialDelay: 1 },
+    });
+
+    await assert.rejects(
+      b2.call("b2_list_buckets", { accountId: b2.accountId }),
+      (err: BackblazeLibraryError.NetworkError) => {
+        assert.ok(err instanceof BackblazeLibraryError.NetworkError);
+        assert.ok(err.isRetryable);
+        assert.strictEqual(err.context!.attempt, 2);
+        return true;
+      }
+    );
+  });
+});
@@ -0,0 +1,41 @@
+import assert from "assert";
+import { BackblazeLibraryError } from "../src/errors";
+import { CopyOptions } from "../src/file-copy";
+import FakeB2 from "../src/testing/fake-b2";
+import { authorizeFake, requestsFor } from "./helpers";
+
+describe("copies", () => {
+  let fake: FakeB2;
+
+  beforeEach(() => {
+    fake = new FakeB2();
+    fake.createBucket("test-bucket");
+  });
+
+  it("rejects a range which starts past the end of the source", async () => {
+    const b2 = await authorizeFake(fake);
+    const bucket = await b2.bucket("test-bucket");
+    const file = await bucket.upload("hello.txt", Buffer.from("hello"));
+
+    for (const start of [5, 10])
+      await assert.rejects(
+        file.copyTo(bucket, "copy.txt", { range: { start } }),
+        BackblazeLibraryError.BadUsage
+      );
+    assert.strictEqual(requestsFor(fake, "b2_copy_file"), 0);
+  });
+
+  it("rejects moving a range", async () => {
+    const b2 = await authorizeFake(fake);
+    const bucket = await b2.bucket("test-bucket");
+    const file = await bucket.upload("hello.txt", Buffer.from("hello"));
+    const options: CopyOptions = { range: { start: 0, end: 1 } };
+
+    await assert.rejects(
+      file.moveTo(bucket, "moved.txt", options),
+      BackblazeLibraryError.BadUsage
+    );
+    assert.strictEqual(requestsFor(fake, "b2_copy_file"), 0);
+    assert.strictEqual(requestsFor(fake, "b2_delete_file_version"), 0);
+  });
+});
@@ -0,0 +1,148 @@
+import assert from "assert";
+import { RequestInit } from "node-fetch";
+import FakeB2 from "../src/testing/fake-b2";
+import { BackblazeLibraryError } from "../src/errors";
+import { UploadProgress } from "../src/progress";
+import { authorizeFake } from "./helpers";
+
+describe("upload streams", () => {
+  let fake: FakeB2;
+
+  beforeEach(() => {
+    fake = new FakeB2({ recommendedPartSize: 10, absoluteMinimumPartSize: 10 });
+    fake.createBucket("test-bucket");
+  });
+
+  it("uploads large files in parts", async () => {
+    const b2 = await authorizeFake(fake);
+    const bucket = await b2.bucket("test-bucket");
+    const data = Buffer.from("0123456789".repeat(5));
+
+    const file = await bucket.upload("large.txt", data, { concurrency: 2 });
+    const stat = await file.stat();
+    assert.strictEqual(stat.contentLength, data.byteLength);
+  });
+
+  it("reports progress as each part is acknowledged", async () => {
+    const b2 = await authorizeFake(fake);
+    const bucket = await b2.bucket("test-bucket");
+    const progress: UploadProgress[] = [];
+
+    const data = Buffer.from("0123456789".repeat(2) + "!");
+
+    await bucket.upload("large.txt", data, {
+      onProgress: (p) => progress.push(p),
+    });
+    assert.deepStrictEqual(
+      progress.map((p) => [p.partNumber, p.partsCompleted, p.bytesTransferred]),
+      [
+        [1, 1, 10],
+        [2, 2, 20],
+        [3, 3, 21],
+      ]
+    );
+    // The totals are known by the last part, once the stream has ended.
+    const last = progress[progress.length - 1];
+    assert.strictEqual(last.totalBytes, 21);
+    assert.strictEqual(last.partsTotal, 3);
+  });
+
+  it("uploads only the missing parts when resuming", async () => {
+    const uploaded: string[] = [];
+    let failing: string | undefined = "2";
+    const b2 = await authorizeFake(fake, {
+      fetch: (url, init: RequestInit = {}) => {
+        if (!url.includes("b2_upload_part/")) return fake.fetch(url, init);
+        const partNumber = (init.headers as Record<string, string>)[
+          "X-Bz-Part-Number"
+        ];
+        if (partNumber === failing)
+          return Promise.reject(new Error("Part failed."));
+        uploaded.push(partNumber);
+        return fake.fetch(url, init);
+      },
+    });
+    const bucket = await b2.bucket("test-bucket");
+    const started = await b2.call("b2_start_large_file", {
+      bucketId: await bucket.getBucketId(),
+      fileName: "large.txt",
+      contentType: "text/plain",
+    });
+    const fileId = started.fileId!;
+    const data = Buffer.from("0123456789".repeat(3));
+
+    await assert.rejects(
+      bucket.upload("large.txt", data, { resumeFileId: fileId }),
+      /Part failed/
+    );
+    assert.deepStrictEqual(uploaded, ["1"]);
+
+    failing = undefined;
+    uploaded.length = 0;
+    const file = await bucket.upload("large.txt", data, {
+      resumeFileId: fileId,
+    });
+    assert.deepStrictEqual(uploaded, ["2", "3"]);
+    assert.strictEqual(await file.getFileId(), fileId);
+    assert.strictEqual((await file.stat()).contentLength, data.byteLength);
+  });
+
+  it("aborts parts which are uploading when destroyed", async () => {
+    const aborted: boolean[] = [];
+    let partStarted!: () => void;
+    const started = new Promise<void>((res) => (partStarted = res));
+
+    const b2 = await authorizeFake(fake, {
+      // Parts hang until they are aborted.
+      fetch: (url, init: RequestInit = {}) => {
+        if (!url.includes("b2_upload_part/")) return fake.fetch(url, init);
+        partStarted();
+        return new Promise((_, rej) =>
+          init.signal!.addEventListener("abort", () => {
+            aborted.push(true);
+            rej(Object.assign(new Error("aborted"), { name: "AbortError" }));
+          })
+        );
+      },
+    });
+    const bucket = await b2.bucket("test-bucket");
+    const stream = bucket.file("large.txt").createWriteStream();
+    const closed = new Promise((res) => stream.on("close", res));
+    stream.on("error", () => {});
+
+    stream.write(Buffer.from("0123456789".repeat(2)));
+    await started;
+    stream.destroy(new BackblazeLibraryError.Aborted("Stopped."));
+    await closed;
+
+    assert.deepStrictEqual(aborted, [true]);
+  });
+
+  it("does not buffer a part until there is room to upload it", async () => {
+    let uploading = 0;
+    const b2 = await authorizeFake(fake, {
+      // Parts hang until they are aborted.
+      fetch: (url, init: RequestInit = {}) => {
+        if (!url.includes("b2_upload_part/")) return fake.fetch(url, init);
+        uploading++;
+        return new Promise((_, rej) =>
+          init.signal!.addEventListener("abort", () =>
+            rej(Object.assign(new Error("aborted"), { name: "AbortError" }))
+          )
+        );
+      },
+    });
+    const bucket = await b2.bucket("test-bucket");
+    const stream = bucket
+      .file("large.txt")
+      .createWriteStream({ concurrency: 2 });
+    stream.on("error", () => {});
+
+    for (let i = 0; i < 20; i++) stream.write(Buffer.from("01234"));
+    await new Promise((res) => setTimeout(res, 50));
+
+    assert.strictEqual(uploading, 2);
+    assert.strictEqual(stream.pendingPart.bytes, 0);
+    stream.destroy();
+  });
+});
@@ -0,0 +1,46 @@
+import assert from "assert";
+import { BackblazeLibraryError } from "../src/errors";
+import { FileAction } from "../src/file";
+import FakeB2 from "../src/testing/fake-b2";
+import { authorizeFake, requestsFor } from "./helpers";
+
+describe("files", () => {
+  let fake: FakeB2;
+
+  beforeEach(() => {
+    fake = new FakeB2();
+    fake.createBucket("test-bucket");
+  });
+
+  it("unhides a file by deleting its hide marker", async () => {
+    const b2 = await authorizeFake(fake);
+    const bucket = await b2.bucket("test-bucket");
+    const file = await bucket.upload("hello.txt", Buffer.from("hello"));
+    await file.hide();
+
+    const revealed = await bucket.file("hello.txt").unhide();
+    assert.strictEqual(revealed.action, FileAction.upload);
+    assert.strictEqual(requestsFor(fake, "b2_delete_file_version"), 1);
+  });
+
+  it("keeps a hide marker with nothing to reveal", async () => {
+    const b2 = await authorizeFake(fake);
+    const bucket = await b2.bucket("test-bucket");
+    const file = await bucket.upload("hello.txt", Buffer.from("hello"));
+    await bucket.file("hello.txt").hide();
+    await file.deleteVersion();
+
+    await assert.rejects(
+      bucket.file("hello.txt").unhide(),
+      BackblazeLibraryError.FileNotFound
+    );
+    assert.strictEqual(requestsFor(fake, "b2_delete_file_version"), 1);
+    const { files } = await b2.call("b2_list_file_versions", {
+      bucketId: await bucket.getBucketId(),
+    });
+    assert.deepStrictEqual(
+      files.map((version) => version.action),
+      [FileAction.hide]
+    );
+  });
+});
@@ -0,0 +1,34 @@
+import { promises as fs } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import B2 from "../src/b2";
+import FakeB2 from "../src/testing/fake-b2";
+import { ClientOptions } from "../src/transport";
+
+/** A client of `fake`, which retries without waiting long. */
+export function authorizeFake(fake: FakeB2, options: ClientOptions = {}) {
+  return B2.authorize(fake.credentials, {
+    fetch: fake.fetch,
+    retry: { initialDelay: 1, jitter: 0 },
+    ...options,
+  });
+}
+
+/** How many requests `fake` has received for the operation. */
+export function requestsFor(fake: FakeB2, operation: string) {
+  return fake.requests.filter((req) => req.operation === operation).length;
+}
+
+/** A new, empty directory for a test's files. */
+export function makeTempDir() {
+  return fs.mkdtemp(join(tmpdir(), "b2-js-test-"));
+}
+
+/** Deletes `dir` and everything in it, if it exists. */
+export function removeDir(dir: string): Promise<void> {
+  // `fs.rm` is newer than the Node typings this package builds against.
+  const { rm } = fs as typeof fs & {
+    rm(path: string, options: { recursive: true; force: true }): Promise<void>;
+  };
+  return rm(dir, { recursive: true, force: true });
+}
@@ -0,0 +1,118 @@
+import assert from "assert";
+import { Response } from "node-fetch";
+import BackblazeServerError from "../src/errors";
+import { isDeletionLocked, RetentionMode } from "../src/object-lock";
+import FakeB2 from "../src/testing/fake-b2";
+import { authorizeFake, requestsFor } from "./helpers";
+
+describe("object lock", () => {
+  let fake: FakeB2;
+
+  beforeEach(() => {
+    fake = new FakeB2();
+    fake.createBucket("test-bucket");
+  });
+
+  it("reports a version under legal hold which B2 won't delete as locked", async () => {
+    const b2 = await authorizeFake(fake, {
+      // The fake doesn't emulate Object Lock, so the version's hold is added.
+      fetch: async (url, init) => {
+        const res = await fake.fetch(url, init);
+        if (!url.endsWith("/b2_get_file_info")) return res;
+        const fileData = {
+          ...(await res.json()),
+          legalHold: { isClientAuthorizedToRead: true, value: "on" },
+        };
+        return new Response(JSON.stringify(fileData), {
+          status: res.status,
+          headers: { "Content-Type": "application/json" },
+        });
+      },
+    });
+    const bucket = await b2.bucket("test-bucket");
+    const file = await bucket.upload("locked.txt", Buffer.from("locked"));
+    fake.injectFault({
+      operation: "b2_delete_file_version",
+      status: 401,
+      code: "access_denied",
+      message: "Access Denied",
+    });
+
+    await assert.rejects(file.deleteVersion(), (err) => {
+      assert.ok(err instanceof BackblazeServerError.FileLocked);
+      assert.ok(err instanceof BackblazeServerError.AccessDenied);
+      return true;
+    });
+  });
+
+  it("does not count governance retention as locked when bypassing it", () => {
+    const retained = (mode: RetentionMode) => ({
+      fileRetention: {
+        isClientAuthorizedToRead: true,
+        value: { mode, retainUntilTimestamp: Date.now() + 60 * 1000 },
+      },
+    });
+
+    assert.ok(isDeletionLocked(retained("governance")));
+    assert.ok(!isDeletionLocked(retained("governance"), true));
+    assert.ok(isDeletionLocked(retained("compliance"), true));
+  });
+
+  it("does not report a denied version without a lock as locked", async () => {
+    const b2 = await authorizeFake(fake);
+    const bucket = await b2.bucket("test-bucket");
+    const file = await bucket.upload("file.txt", Buffer.from("file"));
+    fake.injectFault({
+      operation: "b2_delete_file_version",
+      status: 401,
+      code: "access_denied",
+    });
+
+    await assert.rejects(file.deleteVersion(), (err) => {
+      assert.ok(err instanceof BackblazeServerError.AccessDenied);
+      assert.ok(!(err instanceof BackblazeServerError.FileLocked));
+      return true;
+    });
+  });
+
+  it("does not report other failures to delete as locked", async () => {
+    const b2 = await authorizeFake(fake);
+    const bucket = await b2.bucket("test-bucket");
+    const file = await bucket.upload("file.txt", Buffer.from("file"));
+    fake.injectFault({
+      operation: "b2_delete_file_version",
+      status: 400,
+      message: "The file's legal hold was checked.",
+    });
+
+    await assert.rejects(file.deleteVersion(), (err) => {
+      assert.ok(err instanceof BackblazeServerError.BadRequest);
+      assert.ok(!(err instanceof BackblazeServerError.FileLocked));
+      return true;
+    });
+  });
+
+  it("deletes a new bucket whose default retention can't be set", async () => {
+    const b2 = await authorizeFake(fake);
+    fake.injectFault({ operation: "b2_update_bucket", status: 400 });
+
+    await assert.rejects(
+      b2.createBucket("locked-bucket", {
+        bucketType: "allPrivate",
+        fileLockEnabled: true,
+        defaultRetention: {
+          mode: "governance",
+          period: { duration: 1, unit: "days" },
+        },
+      }),
+      BackblazeServerError.BadRequest
+    );
+
+    assert.strictEqual(requestsFor(fake, "b2_delete_bucket"), 1);
+    const buckets = await b2.listBuckets();
+    assert.deepStrictEqual(
+      await Promise.all(buckets.map((bucket) => bucket.getBucketName())),
+      ["test-bucket"]
+    );
+  });
+});
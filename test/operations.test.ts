@@ -0,0 +1,38 @@
+import assert from "assert";
+import { RequestInit } from "node-fetch";
+import FakeB2 from "../src/testing/fake-b2";
+import { authorizeFake } from "./helpers";
+
+describe("operations", () => {
+  let fake: FakeB2;
+  let bucketId: string;
+
+  beforeEach(() => {
+    fake = new FakeB2();
+    ({ bucketId } = fake.createBucket("test-bucket"));
+  });
+
+  it("calls operations by name, with JSON", async () => {
+    const sent: RequestInit[] = [];
+    const b2 = await authorizeFake(fake, {
+      fetch: (url, init: RequestInit = {}) => {
+        if (url.includes("b2_list_file_names")) sent.push(init);
+        return fake.fetch(url, init);
+      },
+    });
+    const bucket = await b2.bucket("test-bucket");
+    await bucket.upload("photos/cat.jpg", Buffer.from("meow"));
+    await bucket.upload("notes.txt", Buffer.from("hello"));
+
+    const params = { bucketId, prefix: "photos/" };
+    const { files, nextFileName } = await b2.call("b2_list_file_names", params);
+
+    assert.deepStrictEqual(
+      files.map((file) => file.fileName),
+      ["photos/cat.jpg"]
+    );
+    assert.strictEqual(nextFileName, null);
+    assert.strictEqual(sent[0].method, "POST");
+    assert.deepStrictEqual(JSON.parse(sent[0].body as string), params);
+  });
+});
@@ -0,0 +1,161 @@
+import assert from "assert";
+import { promises as fs } from "fs";
+import { join } from "path";
+import { PassThrough } from "stream";
+import { FetchError } from "node-fetch";
+import BackblazeServerError from "../src/errors";
+import FakeB2 from "../src/testing/fake-b2";
+import { isRetryableError, RetryEvent } from "../src/retry-policy";
+import {
+  authorizeFake,
+  makeTempDir,
+  removeDir,
+  requestsFor,
+} from "./helpers";
+
+describe("retries", () => {
+  let fake: FakeB2;
+
+  beforeEach(() => {
+    fake = new FakeB2();
+    fake.createBucket("test-bucket");
+  });
+
+  it("retries a request which failed with a 503", async () => {
+    const b2 = await authorizeFake(fake);
+    fake.injectFault({ operation: "b2_list_buckets", status: 503, times: 2 });
+
+    const { buckets } = await b2.call("b2_list_buckets", {
+      accountId: b2.accountId,
+    });
+
+    assert.strictEqual(buckets.length, 1);
+    assert.strictEqual(requestsFor(fake, "b2_list_buckets"), 3);
+  });
+
+  it("gives up after maxAttempts", async () => {
+    const b2 = await authorizeFake(fake, {
+      retry: { maxAttempts: 2, initialDelay: 1 },
+    });
+    fake.injectFault({ operation: "b2_list_buckets", status: 503, times: 5 });
+
+    await assert.rejects(
+      b2.call("b2_list_buckets", { accountId: b2.accountId }),
+      (err: BackblazeServerError) => {
+        assert.ok(err instanceof BackblazeServerError.ServiceUnavailable);
+        assert.strictEqual(err.context!.attempt, 2);
+        return true;
+      }
+    );
+    assert.strictEqual(requestsFor(fake, "b2_list_buckets"), 2);
+  });
+
+  it("does not retry errors which can't succeed", async () => {
+    const b2 = await authorizeFake(fake);
+    fake.injectFault({ operation: "b2_list_buckets", status: 400 });
+
+    await assert.rejects(
+      b2.call("b2_list_buckets", { accountId: b2.accountId }),
+      BackblazeServerError.BadRequest
+    );
+    assert.strictEqual(requestsFor(fake, "b2_list_buckets"), 1);
+  });
+
+  it("waits as long as Retry-After asks", async () => {
+    const retries: RetryEvent[] = [];
+    const b2 = await authorizeFake(fake, {
+      retry: { initialDelay: 1, jitter: 0, onRetry: (e) => retries.push(e) },
+    });
+    fake.injectFault({
+      operation: "b2_list_buckets",
+      status: 429,
+      retryAfter: 0.05,
+    });
+
+    const started = Date.now();
+    await b2.call("b2_list_buckets", { accountId: b2.accountId });
+
+    assert.strictEqual(retries.length, 1);
+    assert.strictEqual(retries[0].operation, "b2_list_buckets");
+    assert.strictEqual(retries[0].delay, 50);
+    assert.ok(retries[0].error instanceof BackblazeServerError.TooManyRequests);
+    assert.ok(Date.now() - started >= 50);
+  });
+
+  it("ignores Retry-After unless respectRetryAfter", async () => {
+    const retries: RetryEvent[] = [];
+    const b2 = await authorizeFake(fake, {
+      retry: {
+        initialDelay: 1,
+        jitter: 0,
+        respectRetryAfter: false,
+        onRetry: (e) => retries.push(e),
+      },
+    });
+    fake.injectFault({
+      operation: "b2_list_buckets",
+      status: 429,
+      retryAfter: 60,
+    });
+
+    await b2.call("b2_list_buckets", { accountId: b2.accountId });
+    assert.strictEqual(retries[0].delay, 1);
+  });
+
+  it("retries uploads of Buffers", async () => {
+    const b2 = await authorizeFake(fake);
+    const bucket = await b2.bucket("test-bucket");
+    fake.injectFault({ operation: "b2_upload_file", status: 503 });
+
+    await bucket.upload("hello.txt", Buffer.from("hello"));
+    assert.strictEqual(requestsFor(fake, "b2_upload_file"), 2);
+  });
+
+  it("retries uploads of small files from the filesystem", async () => {
+    const b2 = await authorizeFake(fake);
+    const bucket = await b2.bucket("test-bucket");
+    const dir = await makeTempDir();
+    try {
+      const localPath = join(dir, "hello.txt");
+      await fs.writeFile(localPath, "hello");
+      fake.injectFault({ operation: "b2_upload_file", status: 503 });
+
+      const file = await bucket.uploadFile(localPath);
+      assert.strictEqual(requestsFor(fake, "b2_upload_file"), 2);
+      assert.strictEqual((await file.stat()).contentLength, 5);
+    } finally {
+      await removeDir(dir);
+    }
+  });
+
+  it("does not retry uploads of streams", async () => {
+    const b2 = await authorizeFake(fake);
+    const bucket = await b2.bucket("test-bucket");
+    fake.injectFault({ operation: "b2_upload_file", status: 503 });
+
+    const data = new PassThrough();
+    data.end("hello");
+    await assert.rejects(
+      bucket.uploadSinglePart("hello.txt", data, { contentLength: 5 }),
+      BackblazeServerError.ServiceUnavailable
+    );
+    assert.strictEqual(requestsFor(fake, "b2_upload_file"), 1);
+  });
+});
+
+describe("isRetryableError", () => {
+  it("retries failures to reach B2 or read its response", () => {
+    assert.ok(isRetryableError(new FetchError("socket hang up", "system")));
+    assert.ok(isRetryableError(new FetchError("timed out", "body-timeout")));
+    assert.ok(
+      isRetryableError(Object.assign(new Error("reset"), { code: "ECONNRESET" }))
+    );
+  });
+
+  it("does not retry bugs or malformed responses", () => {
+    assert.ok(!isRetryableError(new TypeError("x is not a function")));
+    assert.ok(!isRetryableError(new SyntaxError("Unexpected token <")));
+    assert.ok(!isRetryableError(new FetchError("bad JSON", "invalid-json")));
+    assert.ok(!isRetryableError("failed"));
+  });
+});
@@ -0,0 +1,50 @@
+import assert from "assert";
+import { Agent } from "http";
+import { RequestInit } from "node-fetch";
+import { BackblazeLibraryError } from "../src/errors";
+import FakeB2 from "../src/testing/fake-b2";
+import { authorizeFake } from "./helpers";
+
+describe("transport", () => {
+  let fake: FakeB2;
+
+  beforeEach(() => {
+    fake = new FakeB2();
+    fake.createBucket("test-bucket");
+  });
+
+  it("sends every request with the given fetch and agent", async () => {
+    const agent = new Agent();
+    const sent: { url: string; agent: unknown }[] = [];
+    const b2 = await authorizeFake(fake, {
+      realm: "https://b2.example.com/",
+      agent,
+      fetch: (url, init: RequestInit = {}) => {
+        sent.push({ url, agent: init.agent });
+        return fake.fetch(url, init);
+      },
+    });
+
+    const bucket = await b2.bucket("test-bucket");
+    await bucket.upload("hello.txt", Buffer.from("hello"));
+
+    assert.strictEqual(
+      sent[0].url,
+      "https://b2.example.com/b2api/v2/b2_authorize_account"
+    );
+    assert.ok(sent.length > 1);
+    for (const request of sent) assert.strictEqual(request.agent, agent);
+    agent.destroy();
+  });
+
+  it("rejects both an agent and a proxy", async () => {
+    await assert.rejects(
+      authorizeFake(fake, {
+        agent: new Agent(),
+        proxy: "http://proxy.example.com:3128",
+      }),
+      BackblazeLibraryError.BadUsage
+    );
+    assert.strictEqual(fake.requests.length, 0);
+  });
+});